@@ -4,9 +4,23 @@ import { MemoryModal } from './components/MemoryModal';
 import { GalleryView } from './components/GalleryView';
 import { WorldView } from './components/WorldView';
 import { OrbView } from './components/OrbView';
-import { PlusIcon, ArrowsUpDownIcon, ListBulletIcon, GlobeAmericasIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { ArchivePanel } from './components/ArchivePanel';
+import { TimelineView } from './components/TimelineView';
+import { SelectionBar } from './components/SelectionBar';
+import { UndoToast } from './components/UndoToast';
+import { TagFilter } from './components/TagFilter';
+import { SearchBar } from './components/SearchBar';
+import { UploadTray } from './components/UploadTray';
+import { DuplicateReview } from './components/DuplicateReview';
+import { JournalComposer } from './components/JournalComposer';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { AIUsageNotice } from './components/AIUsageNotice';
+import { FailedAnalysisBar } from './components/FailedAnalysisBar';
+import { PlusIcon, ArrowsUpDownIcon, ListBulletIcon, GlobeAmericasIcon, SparklesIcon, CalendarDaysIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import { motion, AnimatePresence } from 'framer-motion';
 import { usePresenter } from './hooks/usePresenter';
+import { useTranslation } from './hooks/useTranslation';
+import { useVisibleMemories } from './hooks/useVisibleMemories';
 import { useMemoryStore } from './stores/memoryStore';
 import { useViewStore } from './stores/viewStore';
 import { useOrbStore } from './stores/orbStore';
@@ -15,13 +29,15 @@ const MotionDiv = motion.div as any;
 
 const App: React.FC = () => {
   // Use Stores with atomic selectors to prevent unnecessary re-renders
-  const memories = useMemoryStore(s => s.memories);
+  const memories = useVisibleMemories();
   const viewMode = useViewStore(s => s.viewMode);
   // Gravity Mode is now in OrbStore
   const isGravityMode = useOrbStore(s => s.isGravityMode);
+  const isSelecting = useMemoryStore(s => s.isSelecting);
 
   // Use Presenter
-  const { memoryManager, viewManager, orbManager } = usePresenter();
+  const { memoryManager, viewManager, orbManager, selectionManager, routeManager } = usePresenter();
+  const { t } = useTranslation();
   
   // Local Refs & UI State
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -29,7 +45,9 @@ const App: React.FC = () => {
   // Initialize Data
   useEffect(() => {
     memoryManager.loadInitialMemories();
-  }, [memoryManager]);
+    // Reopens the view / memory the URL points at once the memories are in
+    routeManager.restoreRoute();
+  }, [memoryManager, routeManager]);
 
   // Responsive Radius handled by OrbManager now
   useEffect(() => {
@@ -75,6 +93,19 @@ const App: React.FC = () => {
            </MotionDiv>
         )}
 
+        {viewMode === 'timeline' && (
+           <MotionDiv
+             key="timeline-view"
+             initial={{ opacity: 0, x: 50 }}
+             animate={{ opacity: 1, x: 0 }}
+             exit={{ opacity: 0, x: 50 }}
+             transition={{ duration: 0.4 }}
+             className="absolute inset-0"
+           >
+             <TimelineView />
+           </MotionDiv>
+        )}
+
         {viewMode === 'world' && (
           <MotionDiv
             key="world-view"
@@ -92,10 +123,10 @@ const App: React.FC = () => {
       {memories.length === 0 && (
         <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none z-0">
           <h1 className="text-4xl md:text-6xl font-serif text-white/80 tracking-widest drop-shadow-[0_0_15px_rgba(255,255,255,0.3)] mb-4 animate-pulse">
-            记忆空间
+            {t('app.title')}
           </h1>
           <p className="text-white/40 font-light tracking-wide text-lg max-w-md text-center">
-            上传你的照片，让它们在此刻凝结成诗
+            {t('app.tagline')}
           </p>
         </div>
       )}
@@ -111,7 +142,23 @@ const App: React.FC = () => {
             <div className="bg-white/10 p-2 sm:p-3 rounded-full group-hover:bg-white/20 transition-colors border border-white/5">
               <PlusIcon className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
             </div>
-            <span className="text-[10px] text-white/40 mt-1">上传</span>
+            <span className="text-[10px] text-white/40 mt-1">{t('control.upload')}</span>
+          </button>
+
+          <JournalComposer />
+
+          <ArchivePanel />
+
+          <LocaleSwitcher />
+
+          <button 
+            className="flex flex-col items-center group w-12 sm:w-14"
+            onClick={() => selectionManager.toggleSelecting()}
+          >
+            <div className={`p-2 sm:p-3 rounded-full transition-colors border ${isSelecting ? 'bg-indigo-500/30 border-indigo-400/50 text-indigo-200' : 'bg-white/10 border-white/5 text-white group-hover:bg-white/20'}`}>
+              <CheckCircleIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+            </div>
+            <span className={`text-[10px] mt-1 ${isSelecting ? 'text-indigo-300' : 'text-white/40'}`}>{t('control.select')}</span>
           </button>
           
           <div className="w-px h-8 bg-white/10"></div>
@@ -124,7 +171,7 @@ const App: React.FC = () => {
             >
               <GlobeAmericasIcon className="w-5 h-5 sm:w-6 sm:h-6" />
               <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover/orb:opacity-100 transition-opacity pointer-events-none whitespace-nowrap border border-white/10">
-                星云
+                {t('view.orb')}
               </div>
             </button>
             
@@ -134,7 +181,17 @@ const App: React.FC = () => {
             >
               <ListBulletIcon className="w-5 h-5 sm:w-6 sm:h-6" />
               <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover/gallery:opacity-100 transition-opacity pointer-events-none whitespace-nowrap border border-white/10">
-                画廊
+                {t('view.gallery')}
+              </div>
+            </button>
+
+            <button 
+              onClick={() => viewManager.setViewMode('timeline')}
+              className={`p-2 sm:p-3 rounded-full transition-all duration-300 relative group/timeline ${viewMode === 'timeline' ? 'bg-white/20 text-white shadow-sm ring-1 ring-white/10' : 'text-white/40 hover:text-white/70 hover:bg-white/5'}`}
+            >
+              <CalendarDaysIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+              <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover/timeline:opacity-100 transition-opacity pointer-events-none whitespace-nowrap border border-white/10">
+                {t('view.timeline')}
               </div>
             </button>
 
@@ -144,13 +201,13 @@ const App: React.FC = () => {
             >
               <SparklesIcon className="w-5 h-5 sm:w-6 sm:h-6" />
                <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover/world:opacity-100 transition-opacity pointer-events-none whitespace-nowrap border border-white/10">
-                世界
+                {t('view.world')}
               </div>
             </button>
 
           </div>
 
-          <div className={`overflow-hidden transition-all duration-500 flex items-center ${viewMode === 'orb' ? 'w-auto max-w-[100px] opacity-100 scale-100' : 'max-w-0 opacity-0 scale-90'}`}>
+          <div className={`overflow-hidden transition-all duration-500 flex items-center ${viewMode === 'orb' ? 'w-auto max-w-[200px] opacity-100 scale-100' : 'max-w-0 opacity-0 scale-90'}`}>
              <div className="w-px h-8 bg-white/10 mx-2 sm:mx-4"></div>
              <button 
                 onClick={() => orbManager.toggleGravityMode()}
@@ -161,7 +218,7 @@ const App: React.FC = () => {
                     <ArrowsUpDownIcon className="w-5 h-5 sm:w-6 sm:h-6" />
                 </div>
                 <span className={`text-[10px] mt-1 transition-colors ${isGravityMode ? 'text-indigo-300' : 'text-white/40'}`}>
-                  {isGravityMode ? '重力' : '悬浮'}
+                  {isGravityMode ? t('control.gravity') : t('control.float')}
                 </span>
              </button>
           </div>
@@ -170,9 +227,9 @@ const App: React.FC = () => {
              <div className="w-px h-8 bg-white/10 mx-4"></div>
              <div className="flex flex-col items-start min-w-[80px]">
                 <span className="text-xs text-white/80 font-medium flex items-center gap-1">
-                    Memory Space
+                    {t('app.brand')}
                 </span>
-                <span className="text-[10px] text-white/40">{memories.length} 个记忆片段</span>
+                <span className="text-[10px] text-white/40">{t('app.memoryCount', { count: memories.length })}</span>
              </div>
           </div>
           
@@ -181,13 +238,21 @@ const App: React.FC = () => {
             ref={fileInputRef}
             className="hidden" 
             multiple 
-            accept="image/*"
+            accept="image/*,video/*"
             onChange={handleFileUpload}
           />
 
         </div>
       </div>
 
+      <TagFilter />
+      <SearchBar />
+      <SelectionBar />
+      <UndoToast />
+      <UploadTray />
+      <FailedAnalysisBar />
+      <DuplicateReview />
+      <AIUsageNotice />
       <MemoryModal />
 
       <div className="absolute inset-0 pointer-events-none bg-[radial-gradient(circle_at_center,transparent_0%,rgba(0,0,0,0.6)_100%)] z-40"></div>
@@ -3,19 +3,49 @@ import { ViewManager } from './managers/ViewManager';
 import { OrbManager } from './managers/OrbManager';
 import { GalleryManager } from './managers/GalleryManager';
 import { WorldManager } from './managers/WorldManager';
+import { TimelineManager } from './managers/TimelineManager';
+import { SelectionManager } from './managers/SelectionManager';
+import { SearchManager } from './managers/SearchManager';
+import { LayoutManager } from './managers/LayoutManager';
+import { IngestManager } from './managers/IngestManager';
+import { DuplicateManager } from './managers/DuplicateManager';
+import { VoiceNoteManager } from './managers/VoiceNoteManager';
+import { LocaleManager } from './managers/LocaleManager';
+import { AIUsageManager } from './managers/AIUsageManager';
+import { RouteManager } from './managers/RouteManager';
 
 export class AppPresenter {
   memoryManager: MemoryManager;
+  ingestManager: IngestManager;
   viewManager: ViewManager;
   orbManager: OrbManager;
   galleryManager: GalleryManager;
   worldManager: WorldManager;
+  timelineManager: TimelineManager;
+  selectionManager: SelectionManager;
+  searchManager: SearchManager;
+  layoutManager: LayoutManager;
+  duplicateManager: DuplicateManager;
+  voiceNoteManager: VoiceNoteManager;
+  localeManager: LocaleManager;
+  aiUsageManager: AIUsageManager;
+  routeManager: RouteManager;
 
   constructor() {
-    this.memoryManager = new MemoryManager();
+    this.ingestManager = new IngestManager();
+    this.memoryManager = new MemoryManager(this.ingestManager);
     this.viewManager = new ViewManager();
     this.orbManager = new OrbManager();
     this.galleryManager = new GalleryManager();
     this.worldManager = new WorldManager();
+    this.timelineManager = new TimelineManager();
+    this.selectionManager = new SelectionManager(this.memoryManager);
+    this.searchManager = new SearchManager();
+    this.layoutManager = new LayoutManager();
+    this.duplicateManager = new DuplicateManager(this.memoryManager);
+    this.voiceNoteManager = new VoiceNoteManager(this.memoryManager);
+    this.localeManager = new LocaleManager();
+    this.aiUsageManager = new AIUsageManager();
+    this.routeManager = new RouteManager(this.memoryManager, this.viewManager, this.galleryManager, this.worldManager, this.orbManager);
   }
 }
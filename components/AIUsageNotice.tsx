@@ -0,0 +1,55 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useAIUsageStore } from '../stores/aiUsageStore';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MotionDiv = motion.div as any;
+
+/**
+ * Says why AI results are slow or missing: requests queued under the per-minute limit,
+ * or today's quota used up. Sits above the memory modal, where replies are asked for.
+ */
+export const AIUsageNotice: React.FC = () => {
+  const usage = useAIUsageStore(s => s.usage);
+  const { aiUsageManager } = usePresenter();
+  const { t, formatDate } = useTranslation();
+
+  const isExhausted = usage.exhaustedUntil !== null && usage.exhaustedUntil > Date.now();
+
+  // The quota comes back with the new day; drop the notice then
+  useEffect(() => {
+    if (usage.exhaustedUntil === null) return;
+    const timer = setTimeout(aiUsageManager.refreshUsage, Math.max(0, usage.exhaustedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [usage.exhaustedUntil, aiUsageManager]);
+
+  const message = isExhausted
+    ? t(usage.budget > 0 ? 'aiUsage.exhaustedWithBudget' : 'aiUsage.exhausted', {
+        budget: usage.budget,
+        time: formatDate(usage.exhaustedUntil!, { dateStyle: 'short', timeStyle: 'short' }),
+      })
+    : usage.waiting > 0 ? t('aiUsage.queued', { count: usage.waiting }) : null;
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <MotionDiv
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          className="fixed top-6 left-1/2 -translate-x-1/2 z-[100000] pointer-events-none max-w-[90vw]"
+        >
+          <div className={`flex items-center gap-2 px-4 py-2 rounded-full text-xs backdrop-blur-md border shadow-[0_10px_30px_rgba(0,0,0,0.5)] ${isExhausted
+            ? 'bg-rose-950/80 border-rose-300/20 text-rose-100/90'
+            : 'bg-slate-900/90 border-white/10 text-white/70'}`}
+          >
+            {isExhausted ? <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" /> : <ClockIcon className="w-4 h-4 flex-shrink-0 animate-pulse" />}
+            {message}
+          </div>
+        </MotionDiv>
+      )}
+    </AnimatePresence>
+  );
+};
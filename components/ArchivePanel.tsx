@@ -0,0 +1,169 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArchiveBoxIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, EyeIcon, EyeSlashIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryStore } from '../stores/memoryStore';
+import { useStyleStore } from '../stores/styleStore';
+import { ImportMode } from '../managers/MemoryManager';
+import { StylePresetMenu } from './StylePresetMenu';
+
+const MotionDiv = motion.div as any;
+
+export const ArchivePanel: React.FC = () => {
+  const { memoryManager, duplicateManager } = usePresenter();
+  const { t } = useTranslation();
+  const showArchived = useMemoryStore(s => s.showArchived);
+  const archivedCount = useMemoryStore(s => s.memories.filter(m => m.isArchived).length);
+  const defaultPresetId = useStyleStore(s => s.defaultPresetId);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<ImportMode>('merge');
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await memoryManager.exportSpace();
+      setMessage(t('archive.exported'));
+    } catch (e) {
+      console.error(e);
+      setMessage(t('archive.exportFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleScan = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const found = await duplicateManager.scanSpace();
+      setMessage(found > 0 ? t('archive.duplicatesFound', { count: found }) : t('archive.noDuplicates'));
+    } catch (e) {
+      console.error(e);
+      setMessage(t('archive.findDuplicatesFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const pickArchive = (mode: ImportMode) => {
+    importModeRef.current = mode;
+    fileInputRef.current?.click();
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const report = await memoryManager.importSpace(file, importModeRef.current);
+      const collisionNote = report.collisions.length > 0
+        ? t('archive.collisions', { count: report.collisions.length })
+        : '';
+      setMessage(t('archive.imported', { count: report.imported }) + collisionNote);
+    } catch (e) {
+      console.error(e);
+      setMessage(t('archive.importFailed', { error: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setIsBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className="flex flex-col items-center group w-12 sm:w-14"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className={`p-2 sm:p-3 rounded-full transition-colors border ${isOpen ? 'bg-white/20 border-white/20' : 'bg-white/10 border-white/5 group-hover:bg-white/20'}`}>
+          <ArchiveBoxIcon className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+        </div>
+        <span className="text-[10px] text-white/40 mt-1">{t('control.archive')}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <MotionDiv
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={{ duration: 0.2 }}
+            className="absolute bottom-full left-1/2 -translate-x-1/2 mb-6 w-56 bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-xl p-2 shadow-[0_10px_40px_rgba(0,0,0,0.6)]"
+          >
+            <button
+              onClick={handleExport}
+              disabled={isBusy}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white/80 hover:bg-white/10 disabled:opacity-40 transition-colors"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              {t('archive.export')}
+            </button>
+            <button
+              onClick={() => pickArchive('merge')}
+              disabled={isBusy}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white/80 hover:bg-white/10 disabled:opacity-40 transition-colors"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              {t('archive.importMerge')}
+            </button>
+            <button
+              onClick={() => pickArchive('replace')}
+              disabled={isBusy}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-rose-200/80 hover:bg-rose-500/10 disabled:opacity-40 transition-colors"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              {t('archive.importReplace')}
+            </button>
+
+            <div className="h-px bg-white/10 my-1" />
+            <button
+              onClick={handleScan}
+              disabled={isBusy}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white/80 hover:bg-white/10 disabled:opacity-40 transition-colors"
+            >
+              <DocumentDuplicateIcon className="w-4 h-4" />
+              {t('archive.findDuplicates')}
+            </button>
+            <button
+              onClick={() => memoryManager.setShowArchived(!showArchived)}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white/80 hover:bg-white/10 transition-colors"
+            >
+              {showArchived ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+              {showArchived ? t('archive.hideArchived') : t('archive.showArchived')}
+              <span className="ml-auto text-[10px] text-white/40">{archivedCount}</span>
+            </button>
+
+            <div className="h-px bg-white/10 my-1" />
+            <p className="px-3 pt-1 pb-1 text-[10px] uppercase tracking-[0.2em] text-white/40">{t('style.spaceDefault')}</p>
+            <StylePresetMenu
+              current={defaultPresetId}
+              onPick={(presetId) => presetId && memoryManager.setDefaultStylePreset(presetId)}
+            />
+
+            {(isBusy || message) && (
+              <p className="px-3 pt-2 pb-1 text-[11px] text-white/50 border-t border-white/10 mt-1">
+                {isBusy ? t('archive.busy') : message}
+              </p>
+            )}
+
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept=".zip,application/zip"
+              onChange={handleImport}
+            />
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
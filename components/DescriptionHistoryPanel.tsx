@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { Memory, DescriptionSource } from '../types';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../services/i18n';
+import { diffText } from '../services/textDiff';
+
+const SOURCE_LABELS: Record<DescriptionSource, MessageKey> = {
+  initial: 'history.source.initial',
+  interpret: 'history.source.interpret',
+  expand: 'history.source.expand',
+  manual: 'history.source.manual',
+  revert: 'history.source.revert',
+  merge: 'history.source.merge',
+};
+
+interface DescriptionHistoryPanelProps {
+  memory: Memory;
+}
+
+export const DescriptionHistoryPanel: React.FC<DescriptionHistoryPanelProps> = ({ memory }) => {
+  const { memoryManager } = usePresenter();
+  const { t, formatDate } = useTranslation();
+  const history = memory.descriptionHistory ?? [];
+
+  // Up to two selected versions; with one selected it is compared to the version before it
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelection = (id: string) => {
+    setSelectedIds(ids => {
+      if (ids.includes(id)) return ids.filter(x => x !== id);
+      return [...ids, id].slice(-2);
+    });
+  };
+
+  const diff = useMemo(() => {
+    const indices = selectedIds
+      .map(id => history.findIndex(v => v.id === id))
+      .filter(i => i >= 0)
+      .sort((a, b) => a - b);
+    if (indices.length === 0) return null;
+
+    const [from, to] = indices.length === 2 ? indices : [indices[0] - 1, indices[0]];
+    const before = from >= 0 ? history[from].text : '';
+    return diffText(before, history[to].text);
+  }, [selectedIds, history]);
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-white/40 font-light tracking-wide">
+        {t('history.empty')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff && (
+        <div className="p-4 rounded-xl bg-black/30 border border-white/10 text-sm font-serif leading-relaxed tracking-wide">
+          {diff.map((segment, i) => (
+            <span
+              key={i}
+              className={
+                segment.type === 'insert' ? 'bg-emerald-400/20 text-emerald-100'
+                  : segment.type === 'delete' ? 'bg-rose-400/20 text-rose-200/80 line-through'
+                  : 'text-white/70'
+              }
+            >
+              {segment.text}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {[...history].reverse().map((version) => {
+          const isSelected = selectedIds.includes(version.id);
+          const isCurrent = version.id === history[history.length - 1].id;
+          return (
+            <li
+              key={version.id}
+              onClick={() => toggleSelection(version.id)}
+              className={`group/version p-3 rounded-xl border cursor-pointer transition-colors ${isSelected ? 'bg-indigo-400/10 border-indigo-300/30' : 'bg-white/[0.03] border-white/5 hover:bg-white/[0.06]'}`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-[10px] uppercase tracking-[0.2em] text-indigo-100/50">
+                  {t(SOURCE_LABELS[version.source])}
+                  {version.stylePresetId && ` · ${t(`style.${version.stylePresetId}`)}`}
+                  {' · '}{formatDate(version.timestamp, { dateStyle: 'medium', timeStyle: 'short' })}
+                </span>
+                {isCurrent ? (
+                  <span className="text-[10px] text-white/30">{t('history.current')}</span>
+                ) : (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      memoryManager.revertDescription(memory.id, version.id);
+                    }}
+                    className="flex items-center gap-1 text-[10px] text-white/40 hover:text-white opacity-0 group-hover/version:opacity-100 transition-opacity"
+                  >
+                    <ArrowUturnLeftIcon className="w-3 h-3" />
+                    {t('history.revert')}
+                  </button>
+                )}
+              </div>
+              <p className="text-sm text-white/70 font-serif line-clamp-2">{version.text}</p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
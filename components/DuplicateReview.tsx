@@ -0,0 +1,102 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { Memory } from '../types';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryCaption } from '../hooks/useMemoryCaption';
+import { useMemoryStore } from '../stores/memoryStore';
+import { useDuplicateStore } from '../stores/duplicateStore';
+import { similarityOf } from '../services/duplicateService';
+import { posterUrlOf } from './MemoryMedia';
+
+const MotionDiv = motion.div as any;
+
+const MemoryCard: React.FC<{ memory: Memory; caption: string }> = ({ memory, caption }) => {
+  const { formatDate } = useTranslation();
+  const captionOf = useMemoryCaption();
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="aspect-[4/3] rounded-xl overflow-hidden border border-white/10 bg-black/30">
+        <img src={posterUrlOf(memory)} alt="memory" className="w-full h-full object-cover" draggable={false} />
+      </div>
+      <div className="mt-2 text-[10px] uppercase tracking-[0.2em] text-indigo-100/50">
+        {caption} · {formatDate(memory.timestamp)}
+      </div>
+      <p className="mt-1 text-xs text-white/60 font-serif line-clamp-2">{captionOf(memory)}</p>
+    </div>
+  );
+};
+
+export const DuplicateReview: React.FC = () => {
+  const pairs = useDuplicateStore(s => s.pairs);
+  const memories = useMemoryStore(s => s.memories);
+  const { duplicateManager } = usePresenter();
+  const { t } = useTranslation();
+
+  const pair = pairs[0];
+  const memory = pair && memories.find(m => m.id === pair.memoryId);
+  const original = pair && memories.find(m => m.id === pair.duplicateOfId);
+
+  return (
+    <AnimatePresence>
+      {pair && memory && original && (
+        <MotionDiv
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 z-[70] flex items-center justify-center bg-black/50 backdrop-blur-sm pointer-events-auto"
+        >
+          <MotionDiv
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            className="w-[min(560px,92vw)] bg-slate-900/95 border border-white/10 rounded-2xl p-6 shadow-[0_20px_60px_rgba(0,0,0,0.6)]"
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <DocumentDuplicateIcon className="w-5 h-5 text-indigo-200" />
+              <h2 className="text-sm text-white/90 tracking-wide">{t('duplicates.title')}</h2>
+              {pairs.length > 1 && <span className="ml-auto text-[10px] text-white/40">{t('duplicates.remaining', { count: pairs.length - 1 })}</span>}
+            </div>
+            <p className="text-xs text-white/40 mb-5">{t('duplicates.similarity', { percent: Math.round(similarityOf(pair) * 100) })}</p>
+
+            <div className="flex gap-4">
+              <MemoryCard memory={original} caption={t('duplicates.existing')} />
+              <MemoryCard memory={memory} caption={t('duplicates.duplicate')} />
+            </div>
+
+            <div className="flex flex-wrap items-center justify-end gap-2 mt-6">
+              {pairs.length > 1 && (
+                <button
+                  onClick={() => duplicateManager.keepAll()}
+                  className="mr-auto text-xs text-white/40 hover:text-white transition-colors"
+                >
+                  {t('duplicates.keepAll')}
+                </button>
+              )}
+              <button
+                onClick={() => duplicateManager.skip(pair)}
+                title={t('duplicates.skipHint')}
+                className="px-4 py-2 rounded-full text-xs text-rose-200/80 hover:bg-rose-500/10 border border-white/10 transition-colors"
+              >
+                {t('duplicates.skip')}
+              </button>
+              <button
+                onClick={() => duplicateManager.keepBoth(pair)}
+                className="px-4 py-2 rounded-full text-xs text-white/70 hover:bg-white/10 border border-white/10 transition-colors"
+              >
+                {t('duplicates.keepBoth')}
+              </button>
+              <button
+                onClick={() => duplicateManager.merge(pair)}
+                title={t('duplicates.mergeHint')}
+                className="px-4 py-2 rounded-full text-xs text-indigo-100 bg-indigo-500/30 hover:bg-indigo-500/50 border border-indigo-400/40 transition-colors"
+              >
+                {t('duplicates.merge')}
+              </button>
+            </div>
+          </MotionDiv>
+        </MotionDiv>
+      )}
+    </AnimatePresence>
+  );
+};
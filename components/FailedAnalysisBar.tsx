@@ -0,0 +1,44 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useMemoryStore } from '../stores/memoryStore';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MotionDiv = motion.div as any;
+
+/**
+ * Counts the memories whose analysis failed, with one action to retry them all.
+ */
+export const FailedAnalysisBar: React.FC = () => {
+  const failedCount = useMemoryStore(s => s.memories.filter(m => m.analysisStatus === 'failed').length);
+  const { memoryManager } = usePresenter();
+  const { t } = useTranslation();
+
+  return (
+    <AnimatePresence>
+      {failedCount > 0 && (
+        <MotionDiv
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="absolute bottom-32 left-6 z-[60] pointer-events-auto"
+        >
+          <div className="flex items-center gap-3 bg-slate-900/90 backdrop-blur-md pl-4 pr-2 py-2 rounded-xl border border-rose-300/20 shadow-[0_10px_30px_rgba(0,0,0,0.5)]">
+            <ExclamationTriangleIcon className="w-4 h-4 text-rose-300/80" />
+            <span className="text-xs text-white/70 whitespace-nowrap">
+              {t('analysis.failedCount', { count: failedCount })}
+            </span>
+            <button
+              onClick={() => memoryManager.retryAnalysis()}
+              className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs bg-rose-500/20 text-rose-100 hover:bg-rose-500/30 transition-colors"
+            >
+              <ArrowPathIcon className="w-3.5 h-3.5" />
+              {t('analysis.retryAll')}
+            </button>
+          </div>
+        </MotionDiv>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,9 +1,14 @@
 import React, { useRef, useEffect, useMemo } from 'react';
 import { motion, useMotionValue, useSpring, useTransform } from 'framer-motion';
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryCaption } from '../hooks/useMemoryCaption';
+import { useSearchedMemories } from '../hooks/useSearchedMemories';
 import { useMemoryStore } from '../stores/memoryStore';
 import { useGalleryStore } from '../stores/galleryStore';
 import { Memory } from '../types';
+import { posterUrlOf } from './MemoryMedia';
 
 const MotionDiv = motion.div as any;
 
@@ -14,11 +19,13 @@ export const GalleryView: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Stores
-  const memories = useMemoryStore(s => s.memories);
+  const memories = useSearchedMemories();
   const activeIndex = useGalleryStore(s => s.activeIndex);
+  const selectedIds = useMemoryStore(s => s.selectedIds);
   
   // Logic
-  const { galleryManager, memoryManager } = usePresenter();
+  const { galleryManager, memoryManager, selectionManager } = usePresenter();
+  const { t } = useTranslation();
   
   // Sort for gallery (Ascending timestamp)
   const sortedMemories = useMemo(() => {
@@ -125,8 +132,10 @@ export const GalleryView: React.FC = () => {
                    index={i}
                    globalIndex={springIndex}
                    isActive={i === activeIndex}
-                   onClick={() => {
+                   isSelected={selectedIds.includes(memory.id)}
+                   onClick={(e) => {
                        if (!isDragging.current) {
+                           if (selectionManager.handleItemClick(memory.id, e)) return;
                            if (i === activeIndex) memoryManager.selectMemory(memory.id);
                            else galleryManager.setActiveIndex(i);
                        }
@@ -163,7 +172,7 @@ export const GalleryView: React.FC = () => {
           transition={{ delay: 1, duration: 1 }}
           className="absolute bottom-24 left-1/2 -translate-x-1/2 text-white/30 text-xs tracking-widest pointer-events-none animate-pulse"
         >
-          上下滑动
+          {t('gallery.swipeHint')}
         </MotionDiv>
       )}
 
@@ -176,10 +185,15 @@ interface GalleryItemProps {
     index: number;
     globalIndex: any; 
     isActive: boolean;
-    onClick: () => void;
+    isSelected: boolean;
+    onClick: (e: React.MouseEvent) => void;
 }
 
-const GalleryItem: React.FC<GalleryItemProps> = ({ memory, index, globalIndex, isActive, onClick }) => {
+const GalleryItem: React.FC<GalleryItemProps> = ({ memory, index, globalIndex, isActive, isSelected, onClick }) => {
+    const { memoryManager } = usePresenter();
+    const { t, formatDate } = useTranslation();
+    const captionOf = useMemoryCaption();
+    const isFailed = memory.analysisStatus === 'failed';
     const offset = useTransform(globalIndex, (current: number) => index - current);
     
     const y = useTransform(offset, (val: number) => val * ITEM_SPACING);
@@ -205,34 +219,53 @@ const GalleryItem: React.FC<GalleryItemProps> = ({ memory, index, globalIndex, i
                 `}
                 onClick={(e) => {
                     e.stopPropagation();
-                    onClick();
+                    onClick(e);
                 }}
             >
                  <div className="relative w-full md:w-1/2 aspect-[4/3] flex-shrink-0 shadow-2xl group">
-                    <div className="absolute inset-0 rounded-xl overflow-hidden bg-slate-900 border border-white/10">
+                    <div className={`absolute inset-0 rounded-xl overflow-hidden bg-slate-900 border transition-shadow ${isSelected ? 'border-indigo-300 ring-4 ring-indigo-300/60' : isFailed ? 'border-dashed border-rose-300/60' : 'border-white/10'}`}>
                          <img 
-                           src={memory.url} 
+                           src={posterUrlOf(memory)} 
                            alt="memory" 
-                           className="w-full h-full object-cover"
+                           className={`w-full h-full object-cover ${isFailed ? 'grayscale opacity-60' : ''}`}
                            draggable={false}
                          />
                     </div>
+                    {isFailed && (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                memoryManager.retryAnalysis([memory.id]);
+                            }}
+                            className="absolute top-3 right-3 z-20 flex items-center gap-1 px-2 py-1 rounded bg-rose-500/80 hover:bg-rose-400 text-[10px] text-white tracking-wider transition-colors"
+                        >
+                            <ArrowPathIcon className="w-3 h-3" />
+                            {t('common.retry')}
+                        </button>
+                    )}
                     <div className="absolute inset-0 bg-gradient-to-tr from-white/10 to-transparent opacity-50 rounded-xl pointer-events-none"></div>
                     <div className="absolute top-3 left-3 bg-black/60 backdrop-blur-md px-2 py-1 rounded text-[10px] text-indigo-200 uppercase tracking-widest border border-white/10 z-20">
-                        {new Date(memory.timestamp).toLocaleDateString(undefined, { month: 'short', day: '2-digit' })}
+                        {formatDate(memory.timestamp, { month: 'short', day: '2-digit' })}
                     </div>
                  </div>
 
                  <div className="hidden md:block flex-1 text-left">
-                     <h3 className="text-2xl font-serif text-white/90 leading-snug drop-shadow-md">
-                        "{memory.description}"
-                     </h3>
+                     {memory.description ? (
+                        <h3 className="text-2xl font-serif text-white/90 leading-snug drop-shadow-md">
+                           "{memory.description}"
+                        </h3>
+                     ) : (
+                        <p className={`flex items-center gap-2 text-sm tracking-wide ${isFailed ? 'text-rose-200/90' : 'text-white/50'}`}>
+                           {isFailed && <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />}
+                           {captionOf(memory)}
+                        </p>
+                     )}
                      <div className="mt-4 h-px w-12 bg-white/20"></div>
                  </div>
 
                   <div className={`absolute -bottom-16 left-0 right-0 md:hidden text-center z-30 transition-opacity duration-300 ${isActive ? 'opacity-100' : 'opacity-0'}`}>
                     <div className="bg-black/60 backdrop-blur-md rounded-xl p-3 border border-white/10 shadow-lg mx-4">
-                        <p className="text-sm font-serif text-white/90">{memory.description}</p>
+                        <p className={`text-sm ${memory.description ? 'font-serif text-white/90' : isFailed ? 'text-rose-200/90' : 'text-white/50'}`}>{captionOf(memory)}</p>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PencilSquareIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MotionDiv = motion.div as any;
+
+// <input type="date"> works in local calendar days
+const toDateInputValue = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const JournalComposer: React.FC = () => {
+  const { memoryManager, orbManager } = usePresenter();
+  const { t } = useTranslation();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [date, setDate] = useState(() => toDateInputValue(Date.now()));
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!text.trim() || !date) return;
+    const [year, month, day] = date.split('-').map(Number);
+    // Noon keeps the entry on its day in any nearby time zone
+    const timestamp = new Date(year, month - 1, day, 12).getTime();
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await memoryManager.createJournalMemory(text, timestamp, orbManager.getCameraRotation());
+      setText('');
+      setIsOpen(false);
+    } catch (e) {
+      console.error(e);
+      setError(t('journal.failed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className="flex flex-col items-center group w-12 sm:w-14"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className={`p-2 sm:p-3 rounded-full transition-colors border ${isOpen ? 'bg-white/20 border-white/20' : 'bg-white/10 border-white/5 group-hover:bg-white/20'}`}>
+          <PencilSquareIcon className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+        </div>
+        <span className="text-[10px] text-white/40 mt-1">{t('control.write')}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <MotionDiv
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={{ duration: 0.2 }}
+            className="absolute bottom-full left-0 mb-6 w-80 bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-[0_10px_40px_rgba(0,0,0,0.6)]"
+          >
+            <textarea
+              autoFocus
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+                if (e.key === 'Escape') setIsOpen(false);
+              }}
+              rows={6}
+              placeholder={t('journal.placeholder')}
+              className="w-full bg-black/20 border border-white/15 rounded-lg p-3 text-sm text-white/90 font-serif leading-relaxed tracking-wide placeholder:text-white/30 focus:outline-none focus:border-white/30 resize-none"
+            />
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="bg-black/20 border border-white/15 rounded-lg px-2 py-1 text-xs text-white/70 focus:outline-none focus:border-white/30 [color-scheme:dark]"
+              />
+              <button
+                onClick={handleSubmit}
+                disabled={isBusy || !text.trim() || !date}
+                className="ml-auto px-3 py-1 rounded-full text-xs bg-white/15 text-white hover:bg-white/25 disabled:opacity-30 transition-colors"
+              >
+                {isBusy ? t('journal.submitting') : t('journal.submit')}
+              </button>
+            </div>
+            {error && <p className="pt-2 text-[11px] text-rose-200/80">{error}</p>}
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
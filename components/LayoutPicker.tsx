@@ -0,0 +1,43 @@
+import React from 'react';
+import { HandRaisedIcon, ClockIcon, SwatchIcon, SparklesIcon, MapIcon } from '@heroicons/react/24/outline';
+import { OrbLayoutMode } from '../types';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useOrbStore } from '../stores/orbStore';
+import { LAYOUT_STRATEGIES } from '../services/layouts';
+
+const LAYOUT_ICONS: Record<OrbLayoutMode, React.ComponentType<{ className?: string }>> = {
+  manual: HandRaisedIcon,
+  chronological: ClockIcon,
+  color: SwatchIcon,
+  semantic: SparklesIcon,
+  geo: MapIcon,
+};
+
+export const LayoutPicker: React.FC = () => {
+  const layoutMode = useOrbStore(s => s.layoutMode);
+  const isLayoutPending = useOrbStore(s => s.isLayoutPending);
+  const { layoutManager } = usePresenter();
+  const { t } = useTranslation();
+
+  return (
+    <div className="absolute left-6 top-1/2 -translate-y-1/2 z-50 flex flex-col items-center gap-1 p-1 bg-black/40 border border-white/5 rounded-full pointer-events-auto">
+      {(Object.keys(LAYOUT_STRATEGIES) as OrbLayoutMode[]).map(mode => {
+        const Icon = LAYOUT_ICONS[mode];
+        const isActive = layoutMode === mode;
+        return (
+          <button
+            key={mode}
+            onClick={() => layoutManager.setLayoutMode(mode)}
+            className={`relative p-2.5 rounded-full transition-all duration-300 group/layout ${isActive ? 'bg-white/20 text-white ring-1 ring-white/10' : 'text-white/40 hover:text-white/70 hover:bg-white/5'}`}
+          >
+            <Icon className={`w-5 h-5 ${isActive && isLayoutPending ? 'animate-pulse' : ''}`} />
+            <div className="absolute left-full top-1/2 -translate-y-1/2 ml-3 bg-black/80 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover/layout:opacity-100 transition-opacity pointer-events-none whitespace-nowrap border border-white/10">
+              {t(`layout.${mode}`)}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
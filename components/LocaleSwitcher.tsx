@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LanguageIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALES } from '../services/i18n';
+
+const MotionDiv = motion.div as any;
+
+export const LocaleSwitcher: React.FC = () => {
+  const { localeManager } = usePresenter();
+  const { locale, t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        className="flex flex-col items-center group w-12 sm:w-14"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className={`p-2 sm:p-3 rounded-full transition-colors border ${isOpen ? 'bg-white/20 border-white/20' : 'bg-white/10 border-white/5 group-hover:bg-white/20'}`}>
+          <LanguageIcon className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+        </div>
+        <span className="text-[10px] text-white/40 mt-1">{t('control.language')}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <MotionDiv
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={{ duration: 0.2 }}
+            className="absolute bottom-full right-0 mb-6 w-40 bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-xl p-2 shadow-[0_10px_40px_rgba(0,0,0,0.6)]"
+          >
+            {LOCALES.map(option => (
+              <button
+                key={option.locale}
+                lang={option.locale}
+                onClick={() => { localeManager.setLocale(option.locale); setIsOpen(false); }}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white/80 hover:bg-white/10 transition-colors"
+              >
+                {option.name}
+                {option.locale === locale && <CheckIcon className="ml-auto w-4 h-4 text-indigo-200" />}
+              </button>
+            ))}
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
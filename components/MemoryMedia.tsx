@@ -0,0 +1,41 @@
+import React from 'react';
+import { Memory } from '../types';
+
+/**
+ * Still frame for small renderings (orbs, gallery cards, timeline stacks).
+ * Undefined for a clip whose poster frame hasn't been extracted yet.
+ */
+export const posterUrlOf = (memory: Memory): string | undefined => {
+  return memory.thumbnailUrl ?? (memory.mediaKind === 'video' ? undefined : memory.url);
+};
+
+interface MemoryMediaProps {
+  memory: Memory;
+  // 'ambient' loops silently (world view); 'player' adds sound and controls (memory modal)
+  mode: 'ambient' | 'player';
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export const MemoryMedia: React.FC<MemoryMediaProps> = ({ memory, mode, className, style }) => {
+  if (memory.mediaKind === 'video') {
+    return (
+      <video
+        key={memory.id}
+        src={memory.url}
+        poster={memory.previewUrl}
+        className={className}
+        style={style}
+        autoPlay
+        loop
+        playsInline
+        muted={mode === 'ambient'}
+        controls={mode === 'player'}
+      />
+    );
+  }
+
+  // Previews are stills, so animations play from the original
+  const src = memory.mediaKind === 'animated' ? memory.url : memory.previewUrl ?? memory.url;
+  return <img src={src} alt="memory" className={className} style={style} draggable={false} />;
+};
@@ -1,29 +1,50 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { XMarkIcon, SparklesIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
-import { useMemoryStore } from '../stores/memoryStore';
+import { XMarkIcon, SparklesIcon, PaperAirplaneIcon, TrashIcon, ArrowUturnUpIcon, PencilIcon, ClockIcon, ArchiveBoxIcon, ArchiveBoxXMarkIcon, PaintBrushIcon, StopIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useMemoryStore, isAnalysisActive } from '../stores/memoryStore';
 import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryCaption } from '../hooks/useMemoryCaption';
+import { DescriptionHistoryPanel } from './DescriptionHistoryPanel';
+import { MemoryTags } from './MemoryTags';
+import { MemoryMedia } from './MemoryMedia';
+import { VoiceNotes } from './VoiceNotes';
+import { StylePresetMenu } from './StylePresetMenu';
+import { StreamingReply } from './StreamingReply';
 
 const MotionDiv = motion.div as any;
 
 export const MemoryModal: React.FC = () => {
   const selectedMemoryId = useMemoryStore(s => s.selectedMemoryId);
   const memories = useMemoryStore(s => s.memories);
-  const isProcessing = useMemoryStore(s => s.isProcessing);
+  const replyDraft = useMemoryStore(s => s.replyDraft);
   
   const { memoryManager } = usePresenter();
+  const { t, formatDate } = useTranslation();
+  const captionOf = useMemoryCaption();
   
   // Derived state
   const memory = memories.find(m => m.id === selectedMemoryId) || null;
+  const hasReplyDraft = !!memory && replyDraft?.memoryId === memory.id;
+  // Only a reply about this memory locks its input; one left streaming elsewhere is being stopped
+  const isReplying = hasReplyDraft && replyDraft.status === 'streaming';
 
   const [inputText, setInputText] = useState('');
   const [isShyReady, setIsShyReady] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftDescription, setDraftDescription] = useState('');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isStyleMenuOpen, setIsStyleMenuOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (memory) {
       setTimeout(() => inputRef.current?.focus(), 300);
       setInputText('');
+      setIsEditing(false);
+      setIsHistoryOpen(false);
+      setIsStyleMenuOpen(false);
 
       setIsShyReady(false);
       const timer = setTimeout(() => {
@@ -32,23 +53,36 @@ export const MemoryModal: React.FC = () => {
 
       return () => clearTimeout(timer);
     }
-  }, [memory]);
+  }, [memory?.id]);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [memory?.conversation?.length, isReplying, replyDraft?.text.length]);
 
   const onClose = () => {
       memoryManager.selectMemory(null);
   };
 
+  const startEditing = () => {
+    if (!memory) return;
+    setDraftDescription(memory.description);
+    setIsHistoryOpen(false);
+    setIsEditing(true);
+  };
+
+  const saveEditing = () => {
+    if (memory) memoryManager.editDescription(memory.id, draftDescription);
+    setIsEditing(false);
+  };
+
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!inputText.trim() || !memory || isProcessing) return;
-
-    await memoryManager.expandMemoryDescription(
-        memory.id, 
-        memory.description, 
-        inputText, 
-        memory.url
-    );
+    if (!inputText.trim() || !memory || isReplying) return;
+
+    const prompt = inputText;
     setInputText('');
+    await memoryManager.sendConversationMessage(memory.id, prompt);
   };
 
   return (
@@ -110,27 +144,199 @@ export const MemoryModal: React.FC = () => {
 
              <div className="w-full md:w-5/12 h-1/3 md:h-full relative p-4">
                 <div className="relative h-full w-full rounded-[16px] overflow-hidden shadow-2xl border border-white/10 bg-black/20">
-                    <img 
-                        src={memory.url} 
-                        alt="Memory" 
-                        className="w-full h-full object-cover opacity-95 transition-transform duration-[3000ms] ease-out hover:scale-105"
-                    />
+                    {memory.mediaKind === 'video' ? (
+                        <MemoryMedia memory={memory} mode="player" className="w-full h-full object-contain bg-black" />
+                    ) : (
+                        <MemoryMedia 
+                            memory={memory}
+                            mode="player"
+                            className="w-full h-full object-cover opacity-95 transition-transform duration-[3000ms] ease-out hover:scale-105"
+                        />
+                    )}
                 </div>
              </div>
 
              <div className="flex-1 p-6 md:p-8 flex flex-col relative z-30">
                 <div className="flex items-center gap-3 mb-6">
                     <div className="w-1.5 h-1.5 rounded-full bg-indigo-200/80 shadow-[0_0_8px_rgba(199,210,254,0.8)]" />
-                    <span className="text-xs uppercase tracking-[0.25em] font-medium text-indigo-100/60 font-sans">
-                        {new Date(memory.timestamp).toLocaleDateString(undefined, { year: 'numeric', month: '2-digit', day: '2-digit' }).replace(/\//g, '.')}
+                    <span
+                        className="text-xs uppercase tracking-[0.25em] font-medium text-indigo-100/60 font-sans"
+                        title={memory.metadata?.isDateEstimated ? t('modal.estimatedDate') : undefined}
+                    >
+                        {memory.metadata?.isDateEstimated
+                            ? t('modal.approximately', { date: formatDate(memory.timestamp) })
+                            : formatDate(memory.timestamp)}
                     </span>
+                    {memory.metadata?.camera && (
+                        <span className="text-[10px] tracking-wider text-white/30 font-sans truncate">
+                            {[memory.metadata.camera.make, memory.metadata.camera.model].filter(Boolean).join(' ')}
+                        </span>
+                    )}
+                    <div className="ml-auto mr-10 flex items-center gap-1">
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsStyleMenuOpen(!isStyleMenuOpen)}
+                                disabled={isAnalysisActive(memory)}
+                                title={t('style.regenerate')}
+                                className={`p-1.5 rounded-full transition-colors disabled:opacity-30 ${isStyleMenuOpen ? 'bg-white/15 text-white' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+                            >
+                                <PaintBrushIcon className="w-4 h-4" />
+                            </button>
+                            {isStyleMenuOpen && (
+                                <div className="absolute top-full right-0 mt-2 z-50 w-56 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-xl p-2 shadow-[0_10px_40px_rgba(0,0,0,0.6)]">
+                                    <StylePresetMenu
+                                        current={memory.stylePresetId ?? null}
+                                        allowDefault
+                                        onPick={(presetId) => {
+                                            setIsStyleMenuOpen(false);
+                                            memoryManager.reanalyzeMemories([memory.id], presetId ?? null);
+                                        }}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                        <button
+                            onClick={startEditing}
+                            disabled={isAnalysisActive(memory)}
+                            title={t('modal.editDescription')}
+                            className={`p-1.5 rounded-full transition-colors disabled:opacity-30 ${isEditing ? 'bg-white/15 text-white' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+                        >
+                            <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => { setIsEditing(false); setIsHistoryOpen(!isHistoryOpen); }}
+                            title={t('modal.history')}
+                            className={`p-1.5 rounded-full transition-colors ${isHistoryOpen ? 'bg-white/15 text-white' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+                        >
+                            <ClockIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => memoryManager.setArchived([memory.id], !memory.isArchived)}
+                            title={memory.isArchived ? t('common.unarchive') : t('common.archive')}
+                            className="p-1.5 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                        >
+                            {memory.isArchived ? <ArchiveBoxXMarkIcon className="w-4 h-4" /> : <ArchiveBoxIcon className="w-4 h-4" />}
+                        </button>
+                        <button
+                            onClick={() => memoryManager.removeMemories([memory.id])}
+                            title={t('common.delete')}
+                            className="p-1.5 rounded-full text-white/40 hover:text-rose-300 hover:bg-rose-500/10 transition-colors"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
                 </div>
 
+                {isHistoryOpen ? (
+                <div className="flex-1 overflow-y-auto no-scrollbar relative pr-2">
+                    <DescriptionHistoryPanel memory={memory} />
+                </div>
+                ) : (
                 <div className="flex-1 overflow-y-auto no-scrollbar relative mask-linear-fade pr-2">
-                    <p className="text-white text-lg md:text-xl font-serif leading-[1.8] tracking-wider font-light drop-shadow-sm">
-                        {memory.description}
-                    </p>
+                    {isEditing ? (
+                        <div>
+                            <textarea
+                                autoFocus
+                                value={draftDescription}
+                                onChange={(e) => setDraftDescription(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) saveEditing();
+                                    if (e.key === 'Escape') setIsEditing(false);
+                                }}
+                                rows={4}
+                                className="w-full bg-black/20 border border-white/15 rounded-xl p-3 text-white text-lg font-serif leading-[1.8] tracking-wider font-light focus:outline-none focus:border-white/30 resize-none"
+                            />
+                            <div className="flex justify-end gap-2 mt-2">
+                                <button
+                                    onClick={() => setIsEditing(false)}
+                                    className="px-3 py-1 rounded-full text-xs text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                                >
+                                    {t('common.cancel')}
+                                </button>
+                                <button
+                                    onClick={saveEditing}
+                                    disabled={!draftDescription.trim()}
+                                    className="px-3 py-1 rounded-full text-xs bg-white/15 text-white hover:bg-white/25 disabled:opacity-30 transition-colors"
+                                >
+                                    {t('common.save')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                    <>
+                        {memory.description ? (
+                            <p className="text-white text-lg md:text-xl font-serif leading-[1.8] tracking-wider font-light drop-shadow-sm whitespace-pre-line">
+                                {memory.description}
+                            </p>
+                        ) : memory.analysisStatus !== 'failed' && (
+                            <p className="text-white/40 text-sm tracking-wide">{captionOf(memory)}</p>
+                        )}
+                        {memory.analysisStatus === 'failed' && (
+                            <div className="mt-3 flex items-center gap-3 px-3 py-2 rounded-xl bg-rose-500/10 border border-rose-300/20 text-sm text-rose-100/90">
+                                <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                                <span className="flex-1">{t(`analysisError.${memory.analysisError ?? 'provider'}`)}</span>
+                                <button
+                                    onClick={() => memoryManager.retryAnalysis([memory.id])}
+                                    className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs bg-rose-500/20 hover:bg-rose-500/30 transition-colors"
+                                >
+                                    <ArrowPathIcon className="w-3.5 h-3.5" />
+                                    {t('common.retry')}
+                                </button>
+                            </div>
+                        )}
+                    </>
+                    )}
+
+                    {memory.journalText && (
+                        <blockquote className="mt-4 pl-4 border-l border-white/15 text-sm text-white/50 leading-relaxed tracking-wide whitespace-pre-wrap">
+                            {memory.journalText}
+                        </blockquote>
+                    )}
+
+                    {!isAnalysisActive(memory) && <MemoryTags memory={memory} />}
+
+                    <VoiceNotes memory={memory} />
+
+                    {/* Conversation Thread */}
+                    {((memory.conversation?.length ?? 0) > 0 || hasReplyDraft) && (
+                        <div className="mt-6 space-y-3">
+                            {memory.conversation?.map(turn => (
+                                <div
+                                    key={turn.id}
+                                    className={`group/turn flex items-start gap-2 ${turn.role === 'user' ? 'flex-row-reverse' : ''}`}
+                                >
+                                    <div className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm leading-relaxed tracking-wide ${turn.role === 'user'
+                                        ? 'bg-white/10 text-white/70 font-light rounded-tr-sm'
+                                        : 'bg-indigo-400/10 border border-indigo-200/10 text-indigo-50/90 font-serif italic rounded-tl-sm'}`}
+                                    >
+                                        {turn.text}
+                                    </div>
+                                    <div className="flex flex-col gap-1 opacity-0 group-hover/turn:opacity-100 transition-opacity">
+                                        {turn.role === 'assistant' && (
+                                            <button
+                                                onClick={() => memoryManager.promoteTurnToDescription(memory.id, turn.id)}
+                                                title={t('modal.promoteTurn')}
+                                                className="p-1 rounded-full text-white/40 hover:text-indigo-200 hover:bg-white/10 transition-colors"
+                                            >
+                                                <ArrowUturnUpIcon className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => memoryManager.deleteConversationTurn(memory.id, turn.id)}
+                                            title={t('common.delete')}
+                                            className="p-1 rounded-full text-white/40 hover:text-rose-200 hover:bg-white/10 transition-colors"
+                                        >
+                                            <TrashIcon className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                            <StreamingReply memoryId={memory.id} />
+                            <div ref={threadEndRef} />
+                        </div>
+                    )}
                 </div>
+                )}
 
                 <div className="mt-8 pt-6 border-t border-white/10 relative w-full">
                     <form onSubmit={handleSubmit} className="relative group/input">
@@ -143,21 +349,28 @@ export const MemoryModal: React.FC = () => {
                                 type="text"
                                 value={inputText}
                                 onChange={(e) => setInputText(e.target.value)}
-                                placeholder="与这段记忆对话..."
-                                disabled={isProcessing}
+                                placeholder={t('modal.askPlaceholder')}
+                                disabled={isReplying}
                                 className="flex-1 bg-transparent border-none text-white/90 placeholder-white/30 text-sm focus:ring-0 focus:outline-none tracking-wide font-light"
                             />
-                            <button 
-                                type="submit"
-                                disabled={!inputText.trim() || isProcessing}
-                                className="ml-2 p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-all disabled:opacity-0 disabled:scale-90"
-                            >
-                                {isProcessing ? (
-                                    <div className="w-4 h-4 border-[1.5px] border-white/30 border-t-white rounded-full animate-spin"></div>
-                                ) : (
+                            {isReplying ? (
+                                <button 
+                                    type="button"
+                                    onClick={() => memoryManager.cancelReply()}
+                                    title={t('modal.stopReply')}
+                                    className="ml-2 p-2 rounded-full bg-white/10 hover:bg-rose-500/30 text-white transition-all"
+                                >
+                                    <StopIcon className="w-4 h-4" />
+                                </button>
+                            ) : (
+                                <button 
+                                    type="submit"
+                                    disabled={!inputText.trim()}
+                                    className="ml-2 p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-all disabled:opacity-0 disabled:scale-90"
+                                >
                                     <PaperAirplaneIcon className="w-4 h-4 -rotate-45 ml-0.5 mt-0.5" />
-                                )}
-                            </button>
+                                </button>
+                            )}
                         </div>
                     </form>
                 </div>
@@ -1,6 +1,12 @@
-import React, { useState, useMemo } from 'react';
-import { Memory } from '../types';
-import { motion, useTransform, MotionValue } from 'framer-motion';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Memory, OrbPlacement } from '../types';
+import { motion, useTransform, useMotionValue, animate, MotionValue } from 'framer-motion';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryCaption } from '../hooks/useMemoryCaption';
+import { isAnalysisActive } from '../stores/memoryStore';
+import { PlayIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+import { posterUrlOf } from './MemoryMedia';
 
 // Cast motion.div to any to avoid type errors with 'initial' prop in some environments
 const MotionDiv = motion.div as any;
@@ -11,7 +17,13 @@ interface MemoryOrbProps {
   worldRotationX: MotionValue<number>;
   worldRotationY: MotionValue<number>;
   isGravityMode: boolean;
+  // Overrides the memory's own theta/phi (e.g. geographic layout)
+  placement?: OrbPlacement;
+  isSelected?: boolean;
+  // Set while a search is active: matches light up, everything else fades back
+  searchHighlight?: 'match' | 'dimmed';
   onFocus: (memory: Memory) => void;
+  onClick?: (memory: Memory, event: React.MouseEvent) => void;
   onDoubleClick: (memory: Memory) => void;
 }
 
@@ -21,23 +33,80 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
   worldRotationX, 
   worldRotationY,
   isGravityMode,
+  placement,
+  isSelected = false,
+  searchHighlight,
   onFocus,
+  onClick,
   onDoubleClick
 }) => {
   const [isHovered, setIsHovered] = useState(false);
+  const { orbManager, memoryManager } = usePresenter();
+  const { t } = useTranslation();
+  const captionOf = useMemoryCaption();
+  const isFailed = memory.analysisStatus === 'failed';
 
-  // 1. Calculate Static 3D Cartesian position from Spherical coordinates
-  const x = radius * Math.sin(memory.phi) * Math.cos(memory.theta);
-  const y = radius * Math.cos(memory.phi);
-  const z = radius * Math.sin(memory.phi) * Math.sin(memory.theta);
+  // 1. Calculate the resting 3D Cartesian position from Spherical coordinates
+  const theta = placement?.theta ?? memory.theta;
+  const phi = placement?.phi ?? memory.phi;
+  const orbitRadius = radius * (placement?.radiusScale ?? 1);
+  const x = orbitRadius * Math.sin(phi) * Math.cos(theta);
+  const y = orbitRadius * Math.cos(phi);
+  const z = orbitRadius * Math.sin(phi) * Math.sin(theta);
+
+  // Live position. Floating mode eases it to the resting position,
+  // gravity mode hands it to the OrbManager physics loop.
+  const posX = useMotionValue(x);
+  const posY = useMotionValue(y);
+  const posZ = useMotionValue(z);
+
+  useEffect(() => {
+    return orbManager.registerOrbBody(memory.id, {
+      x: posX,
+      y: posY,
+      z: posZ,
+      radius: 70 * memory.scale,
+    });
+  }, [orbManager, memory.id, memory.scale, posX, posY, posZ]);
+
+  useEffect(() => {
+    if (isGravityMode) return;
+
+    const from = { x: posX.get(), y: posY.get(), z: posZ.get() };
+    if (from.x === x && from.y === y && from.z === z) return;
+    const fromRadius = Math.sqrt(from.x * from.x + from.y * from.y + from.z * from.z);
+
+    // Travel along the sphere surface (normalized lerp) rather than through it
+    const controls = animate(0, 1, {
+      type: 'spring',
+      stiffness: 60,
+      damping: 18,
+      onUpdate: (t: number) => {
+        const ix = from.x + (x - from.x) * t;
+        const iy = from.y + (y - from.y) * t;
+        const iz = from.z + (z - from.z) * t;
+        const len = Math.sqrt(ix * ix + iy * iy + iz * iz) || 1;
+        const r = fromRadius + (orbitRadius - fromRadius) * t;
+        posX.set(ix / len * r);
+        posY.set(iy / len * r);
+        posZ.set(iz / len * r);
+      },
+    });
+    return () => controls.stop();
+  }, [isGravityMode, x, y, z, orbitRadius, posX, posY, posZ]);
+
+  const translate = useTransform(
+    [posX, posY, posZ],
+    ([px, py, pz]) => `translate3d(${px}px, ${py}px, ${pz}px)`
+  );
 
   // 2. Real-time Depth Calculation
   // We compute the 'Projected Z' to determine if the orb is in front or back.
   // Must match the Nested Div structure in OrbView: Outer(Pitch) -> Inner(Yaw).
   // Math Order: PitchMatrix * (YawMatrix * Point).
   const projectedZ = useTransform(
-    [worldRotationX, worldRotationY],
-    ([rotX, rotY]) => {
+    [worldRotationX, worldRotationY, posX, posY, posZ],
+    ([rotX, rotY, x, y, z]) => {
       // Convert degrees to radians
       const rX = (rotX as number) * (Math.PI / 180);
       const rY = (rotY as number) * (Math.PI / 180);
@@ -46,9 +115,9 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
       // x' = x*cos(rY) + z*sin(rY)
       // z' = -x*sin(rY) + z*cos(rY)
       // y' = y
-      const x_yaw = x * Math.cos(rY) + z * Math.sin(rY);
-      const z_yaw = -x * Math.sin(rY) + z * Math.cos(rY);
-      const y_yaw = y;
+      const x_yaw = (x as number) * Math.cos(rY) + (z as number) * Math.sin(rY);
+      const z_yaw = -(x as number) * Math.sin(rY) + (z as number) * Math.cos(rY);
+      const y_yaw = y as number;
 
       // Step 2: Apply Outer Rotation (Pitch/X-axis) second
       // y'' = y'*cos(rX) - z'*sin(rX)
@@ -102,11 +171,14 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
   
   const targetScale = isHovered ? BASE_SCALE * HOVER_SCALE_MULTIPLIER : BASE_SCALE;
 
+  // Orbs resting under gravity stop drifting so they settle against each other
+  const isDrifting = !isHovered && !isGravityMode;
+
   return (
     <MotionDiv
       className="absolute top-1/2 left-1/2 w-0 h-0 flex items-center justify-center"
       style={{
-        transform: `translate3d(${x}px, ${y}px, ${z}px)`,
+        transform: translate,
         zIndex: isHovered ? 10000 : dynamicZIndex, 
         transformStyle: 'preserve-3d',
         pointerEvents: dynamicPointerEvents
@@ -128,7 +200,7 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
         transformTemplate={({ rotateX, rotateY }: { rotateX: string, rotateY: string }) => {
           return `rotateY(${rotateY}) rotateX(${rotateX})`;
         }}
-        className="relative"
+        className={`relative transition-opacity duration-500 ${searchHighlight === 'dimmed' && !isHovered ? 'opacity-20' : 'opacity-100'}`}
       >
         <MotionDiv
           className="relative flex items-center justify-center group transition-colors duration-500"
@@ -139,9 +211,9 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
           }}
           animate={{ 
             scale: targetScale,
-            x: isHovered ? 0 : [0, driftX, -driftX, 0],
-            y: isHovered ? 0 : [0, driftY, -driftY, 0],
-            rotate: isHovered ? 0 : [memory.rotation - 2, memory.rotation + 2, memory.rotation - 2],
+            x: isDrifting ? [0, driftX, -driftX, 0] : 0,
+            y: isDrifting ? [0, driftY, -driftY, 0] : 0,
+            rotate: isHovered ? 0 : isDrifting ? [memory.rotation - 2, memory.rotation + 2, memory.rotation - 2] : memory.rotation,
           }}
           transition={{
             scale: { type: 'spring', stiffness: 300, damping: 25 },
@@ -168,6 +240,7 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
                  : 'inset 0 0 12px rgba(255, 255, 255, 0.3), inset 0 0 2px rgba(255, 255, 255, 0.2), 0 10px 20px rgba(0,0,0,0.25)',
                border: '1px solid rgba(255, 255, 255, 0.15)'
              }}
+             onClick={(e: React.MouseEvent) => onClick?.(memory, e)}
              onDoubleClick={(e: React.MouseEvent) => {
                e.stopPropagation();
                onDoubleClick(memory);
@@ -176,13 +249,20 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
               {/* 1. The Image Layer */}
               <div className="absolute inset-0 rounded-full overflow-hidden bg-black">
                 <img 
-                  src={memory.url} 
+                  src={posterUrlOf(memory)} 
                   alt="memory" 
                   className="w-full h-full object-cover scale-[1.05]"
                   draggable={false}
                 />
               </div>
 
+              {/* Moving memories show their poster frame with a play mark */}
+              {(memory.mediaKind === 'video' || memory.mediaKind === 'animated') && (
+                <div className="absolute bottom-[14%] left-1/2 -translate-x-1/2 z-30 p-1 rounded-full bg-black/40 backdrop-blur-sm pointer-events-none">
+                  <PlayIcon className="w-3 h-3 text-white/80" />
+                </div>
+              )}
+
               {/* 2. Glass Skin Overlay */}
               <div 
                 className="absolute inset-0 rounded-full z-20 pointer-events-none transition-all duration-500"
@@ -191,25 +271,59 @@ export const MemoryOrb: React.FC<MemoryOrbProps> = ({
                  <div className="absolute bottom-2 left-1/2 -translate-x-1/2 w-1/2 h-1/4 bg-gradient-to-t from-white/30 to-transparent rounded-b-full opacity-40 blur-[5px]"></div>
               </div>
               
+              {/* Selection Ring */}
+              {isSelected && (
+                <div className="absolute -inset-2 rounded-full border-2 border-indigo-300 shadow-[0_0_20px_rgba(165,180,252,0.7)] pointer-events-none z-40"></div>
+              )}
+
+              {/* Search Match Glow */}
+              {searchHighlight === 'match' && (
+                <div className="absolute -inset-1 rounded-full border border-amber-200/80 shadow-[0_0_35px_rgba(253,230,138,0.8)] pointer-events-none z-40 animate-pulse"></div>
+              )}
+
               {/* Loading Overlay */}
-              {memory.isAnalyzing && (
+              {isAnalysisActive(memory) && (
                 <div className="absolute inset-0 bg-black/40 flex items-center justify-center z-30 rounded-full">
                   <div className="w-8 h-8 border-2 border-t-transparent border-white rounded-full animate-spin"></div>
                 </div>
               )}
+
+              {/* Failed Analysis: a desaturated orb in a rose ring, retried with one click */}
+              {isFailed && (
+                <>
+                  <div className="absolute inset-0 rounded-full bg-rose-950/40 border-2 border-dashed border-rose-300/60 z-30 pointer-events-none backdrop-grayscale" />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      memoryManager.retryAnalysis([memory.id]);
+                    }}
+                    onDoubleClick={(e) => e.stopPropagation()}
+                    title={t('common.retry')}
+                    className="absolute top-[8%] right-[8%] z-40 p-1.5 rounded-full bg-rose-500/80 text-white shadow-[0_0_12px_rgba(244,63,94,0.6)] hover:bg-rose-400 transition-colors"
+                  >
+                    <ArrowPathIcon className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
             </MotionDiv>
 
             {/* Text Reveal */}
-            {isHovered && !memory.isAnalyzing && (
+            {isHovered && !isAnalysisActive(memory) && (
               <MotionDiv 
                 initial={{ opacity: 0, y: 10, scale: 0.5 }}
                 animate={{ opacity: 1, y: 0, scale: 1.0 / HOVER_SCALE_MULTIPLIER }}
                 className="absolute top-full left-1/2 -translate-x-1/2 mt-4 w-72 text-center pointer-events-none z-[20000]"
               >
                 <div className="bg-slate-900/90 backdrop-blur-xl p-4 rounded-xl border border-white/20 shadow-[0_10px_40px_rgba(0,0,0,0.8)]">
-                  <p className="text-white text-base font-serif italic leading-relaxed tracking-wider text-shadow-sm">
-                    "{memory.description}"
-                  </p>
+                  {memory.description ? (
+                    <p className="text-white text-base font-serif italic leading-relaxed tracking-wider text-shadow-sm">
+                      "{memory.description}"
+                    </p>
+                  ) : (
+                    <p className={`text-sm tracking-wide ${isFailed ? 'text-rose-200/90' : 'text-white/50'}`}>
+                      {captionOf(memory)}
+                    </p>
+                  )}
                 </div>
               </MotionDiv>
             )}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Memory } from '../types';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface MemoryTagsProps {
+  memory: Memory;
+}
+
+/**
+ * Editable tag chips for a memory, followed by the rest of the AI analysis (mood, colors, scene).
+ */
+export const MemoryTags: React.FC<MemoryTagsProps> = ({ memory }) => {
+  const { memoryManager } = usePresenter();
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const commit = () => {
+    if (draft.trim()) memoryManager.addTag(memory.id, draft);
+    setDraft('');
+    setIsAdding(false);
+  };
+
+  const analysis = memory.analysis;
+
+  return (
+    <div className="mt-5 space-y-3">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {(memory.tags ?? []).map(tag => (
+          <span
+            key={tag}
+            className="group/tag flex items-center gap-1 pl-2.5 pr-1.5 py-0.5 rounded-full bg-white/5 border border-white/10 text-xs text-white/60"
+          >
+            #{tag}
+            <button
+              onClick={() => memoryManager.removeTag(memory.id, tag)}
+              title={t('tags.remove')}
+              className="text-white/30 hover:text-white opacity-0 group-hover/tag:opacity-100 transition-opacity"
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+
+        {isAdding ? (
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') { setDraft(''); setIsAdding(false); }
+            }}
+            placeholder={t('tags.placeholder')}
+            className="w-24 px-2.5 py-0.5 rounded-full bg-black/20 border border-white/20 text-xs text-white placeholder-white/30 focus:outline-none"
+          />
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            title={t('tags.add')}
+            className="p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            <PlusIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {analysis && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[11px] text-white/40 tracking-wide">
+          {analysis.mood.label && (
+            <span className="flex items-center gap-1.5">
+              {analysis.mood.label}
+              <span className="w-10 h-1 rounded-full bg-white/10 overflow-hidden">
+                <span className="block h-full bg-indigo-200/60" style={{ width: `${analysis.mood.intensity * 100}%` }} />
+              </span>
+            </span>
+          )}
+          {analysis.colors.length > 0 && (
+            <span className="flex items-center gap-1">
+              {analysis.colors.map(color => (
+                <span
+                  key={color}
+                  title={color}
+                  className="w-3 h-3 rounded-full border border-white/20"
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </span>
+          )}
+          {(analysis.scene || analysis.objects.length > 0) && (
+            <span className="truncate">
+              {[analysis.scene, analysis.objects.join(t('common.listSeparator'))].filter(Boolean).join(' · ')}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,10 @@ import { MemoryOrb } from './MemoryOrb';
 import { useMemoryStore } from '../stores/memoryStore';
 import { useOrbStore } from '../stores/orbStore';
 import { usePresenter } from '../hooks/usePresenter';
+import { useVisibleMemories } from '../hooks/useVisibleMemories';
+import { useSearchStore } from '../stores/searchStore';
+import { getContinentOutlinePoints } from '../services/layouts/geoLayout';
+import { LayoutPicker } from './LayoutPicker';
 
 const MotionDiv = motion.div as any;
 
@@ -11,16 +15,20 @@ export const OrbView: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Stores
-  const memories = useMemoryStore(s => s.memories);
+  const memories = useVisibleMemories();
   const isGravityMode = useOrbStore(s => s.isGravityMode);
   const sphereRadius = useOrbStore(s => s.sphereRadius);
+  const layoutMode = useOrbStore(s => s.layoutMode);
+  const placements = useOrbStore(s => s.placements);
+  const selectedIds = useMemoryStore(s => s.selectedIds);
+  const matchedIds = useSearchStore(s => s.matchedIds);
   
   // Presenter
-  const { orbManager, memoryManager } = usePresenter();
+  const { orbManager, memoryManager, selectionManager } = usePresenter();
 
-  // Physics-based rotation
-  const rotationX = useMotionValue(0);
-  const rotationY = useMotionValue(0);
+  // Physics-based rotation, starting from the stored camera (e.g. restored from a link)
+  const rotationX = useMotionValue(orbManager.getCameraRotation().x);
+  const rotationY = useMotionValue(orbManager.getCameraRotation().y);
   const springConfig = { damping: 25, stiffness: 120, mass: 1 }; // Slightly tighter spring for "solid object" feel
   const smoothRotateX = useSpring(rotationX, springConfig);
   const smoothRotateY = useSpring(rotationY, springConfig);
@@ -39,9 +47,20 @@ export const OrbView: React.FC = () => {
     };
   }, [rotationX, rotationY, orbManager]);
 
+  // ...and back: the camera can also be moved from outside, by the browser's back / forward
+  useEffect(() => {
+    return useOrbStore.subscribe((state) => {
+        const { x, y } = state.cameraRotation;
+        if (x !== rotationX.get()) rotationX.set(x);
+        if (y !== rotationY.get()) rotationY.set(y);
+    });
+  }, [rotationX, rotationY]);
+
   // Drag Interaction Logic
   const isDragging = useRef(false);
   const lastMousePos = useRef({ x: 0, y: 0 });
+  // Distance dragged since pointer down, so a spin of the sphere doesn't count as a click on an orb
+  const dragDistance = useRef(0);
 
   const handlePointerDown = (e: React.PointerEvent) => {
     if ((e.target as HTMLElement).closest('button') || (e.target as HTMLElement).closest('input')) {
@@ -49,6 +68,7 @@ export const OrbView: React.FC = () => {
     }
     e.preventDefault(); 
     isDragging.current = true;
+    dragDistance.current = 0;
     lastMousePos.current = { x: e.clientX, y: e.clientY };
     if (containerRef.current) containerRef.current.style.cursor = 'grabbing';
   };
@@ -59,6 +79,7 @@ export const OrbView: React.FC = () => {
     const deltaX = e.clientX - lastMousePos.current.x;
     const deltaY = e.clientY - lastMousePos.current.y;
     lastMousePos.current = { x: e.clientX, y: e.clientY };
+    dragDistance.current += Math.abs(deltaX) + Math.abs(deltaY);
     
     // Physics: Spinning a physical ball.
     // Dragging RIGHT (Positive DeltaX) -> Should rotate Y axis positive (Spin Right).
@@ -76,6 +97,10 @@ export const OrbView: React.FC = () => {
     if (containerRef.current) containerRef.current.style.cursor = 'grab';
   };
 
+  // --- Search ---
+
+  const matchedSet = useMemo(() => matchedIds ? new Set(matchedIds) : null, [matchedIds]);
+
   // --- Visual Generation ---
   
   // Memoize sphere wireframe parts to avoid re-calculation on every render
@@ -129,6 +154,22 @@ export const OrbView: React.FC = () => {
       return parts;
   }, [sphereRadius]);
 
+  // Dotted continent outlines, shown instead of the grid in geographic layout
+  const continentParts = useMemo(() => {
+      return getContinentOutlinePoints().map(({ theta, phi }, i) => {
+          const x = sphereRadius * Math.sin(phi) * Math.cos(theta);
+          const y = sphereRadius * Math.cos(phi);
+          const z = sphereRadius * Math.sin(phi) * Math.sin(theta);
+          return (
+              <div
+                  key={`coast-${i}`}
+                  className="absolute w-1 h-1 rounded-full bg-indigo-200/25 pointer-events-none"
+                  style={{ transform: `translate3d(${x}px, ${y}px, ${z}px)` }}
+              />
+          );
+      });
+  }, [sphereRadius]);
+
   return (
     <MotionDiv 
         key="orb-view"
@@ -144,6 +185,8 @@ export const OrbView: React.FC = () => {
         onPointerUp={handlePointerUp}
         onPointerLeave={handlePointerUp}
     >
+        <LayoutPicker />
+
         {/* 
             NESTED ROTATION STRUCTURE 
             Outer Div: Handles Pitch (X-Axis). 
@@ -179,8 +222,17 @@ export const OrbView: React.FC = () => {
                         style={{ width: sphereRadius, height: sphereRadius }}
                     />
                     
-                    {/* Render the Grid */}
-                    {wireframeParts}
+                    {/* Render the Grid, or the continents in geographic layout */}
+                    <MotionDiv
+                        key={layoutMode}
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ duration: 0.8 }}
+                        className="absolute preserve-3d flex items-center justify-center"
+                        style={{ transformStyle: 'preserve-3d' }}
+                    >
+                        {layoutMode === 'geo' ? continentParts : wireframeParts}
+                    </MotionDiv>
 
                     {/* Outer Halo */}
                     <div 
@@ -203,8 +255,18 @@ export const OrbView: React.FC = () => {
                         worldRotationX={smoothRotateX}
                         worldRotationY={smoothRotateY}
                         isGravityMode={isGravityMode}
+                        placement={placements?.get(memory.id)}
+                        isSelected={selectedIds.includes(memory.id)}
+                        searchHighlight={matchedSet ? (matchedSet.has(memory.id) ? 'match' : 'dimmed') : undefined}
                         onFocus={() => {}}
-                        onDoubleClick={(m) => memoryManager.selectMemory(m.id)}
+                        onClick={(m, e) => {
+                            if (dragDistance.current > 5) return;
+                            selectionManager.handleItemClick(m.id, e);
+                        }}
+                        onDoubleClick={(m) => {
+                            if (useMemoryStore.getState().isSelecting) return;
+                            memoryManager.selectMemory(m.id);
+                        }}
                     />
                 ))}
             </MotionDiv>
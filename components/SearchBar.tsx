@@ -0,0 +1,68 @@
+import React, { useEffect, useRef } from 'react';
+import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useVisibleMemories } from '../hooks/useVisibleMemories';
+import { useSearchStore, narrowToMatches } from '../stores/searchStore';
+
+export const SearchBar: React.FC = () => {
+  const query = useSearchStore(s => s.query);
+  const matchedIds = useSearchStore(s => s.matchedIds);
+  const isSemanticPending = useSearchStore(s => s.isSemanticPending);
+  const visibleMemories = useVisibleMemories();
+  // Results hidden by the archive toggle or the tag filter don't count
+  const resultCount = matchedIds ? narrowToMatches(visibleMemories, matchedIds).length : 0;
+
+  const { searchManager } = usePresenter();
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // "/" focuses the search from anywhere, unless the user is already typing somewhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== '/' || target.closest('input, textarea')) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div className="absolute top-6 right-6 z-[55] pointer-events-auto flex flex-col items-end gap-1">
+      <div className="flex items-center w-56 sm:w-72 bg-black/30 border border-white/10 rounded-full px-3 py-2 backdrop-blur-md transition-colors focus-within:bg-black/50 focus-within:border-white/25">
+        <MagnifyingGlassIcon className="w-4 h-4 text-white/40 flex-shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => searchManager.setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              searchManager.clearSearch();
+              inputRef.current?.blur();
+            }
+          }}
+          placeholder={t('search.placeholder')}
+          className="flex-1 mx-2 bg-transparent border-none text-sm text-white/90 placeholder-white/30 focus:outline-none tracking-wide font-light"
+        />
+        {query && (
+          <button
+            onClick={() => searchManager.clearSearch()}
+            className="p-0.5 rounded-full text-white/40 hover:text-white transition-colors"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {matchedIds && (
+        <span className="pr-3 text-[10px] tracking-wider text-white/40">
+          {resultCount > 0 ? t('search.results', { count: resultCount }) : t('search.noResults')}
+          {isSemanticPending && t('search.semanticPending')}
+        </span>
+      )}
+    </div>
+  );
+};
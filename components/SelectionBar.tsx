@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArchiveBoxIcon, ArchiveBoxXMarkIcon, ArrowPathIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useMemoryStore } from '../stores/memoryStore';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { StylePresetMenu } from './StylePresetMenu';
+
+const MotionDiv = motion.div as any;
+
+export const SelectionBar: React.FC = () => {
+  const isSelecting = useMemoryStore(s => s.isSelecting);
+  const selectedIds = useMemoryStore(s => s.selectedIds);
+  const memories = useMemoryStore(s => s.memories);
+
+  const { selectionManager } = usePresenter();
+  const { t } = useTranslation();
+  const [isStyleMenuOpen, setIsStyleMenuOpen] = useState(false);
+
+  const count = selectedIds.length;
+  const allArchived = count > 0 && selectedIds.every(id => memories.find(m => m.id === id)?.isArchived);
+
+  return (
+    <AnimatePresence>
+      {isSelecting && (
+        <MotionDiv
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          className="absolute top-6 left-1/2 -translate-x-1/2 z-[60] pointer-events-auto"
+        >
+          <div className="flex items-center gap-1 bg-slate-900/90 backdrop-blur-md pl-5 pr-2 py-2 rounded-full border border-white/10 shadow-[0_0_30px_rgba(0,0,0,0.5)]">
+            <span className="text-xs text-white/70 tracking-wide mr-3 whitespace-nowrap">
+              {count > 0 ? t('selection.count', { count }) : t('selection.hint')}
+            </span>
+
+            <button
+              onClick={() => selectionManager.archiveSelected(!allArchived)}
+              disabled={count === 0}
+              title={allArchived ? t('common.unarchive') : t('common.archive')}
+              className="p-2 rounded-full text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors"
+            >
+              {allArchived ? <ArchiveBoxXMarkIcon className="w-5 h-5" /> : <ArchiveBoxIcon className="w-5 h-5" />}
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsStyleMenuOpen(!isStyleMenuOpen)}
+                disabled={count === 0}
+                title={t('selection.reanalyze')}
+                className={`p-2 rounded-full hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors ${isStyleMenuOpen ? 'bg-white/15 text-white' : 'text-white/60'}`}
+              >
+                <ArrowPathIcon className="w-5 h-5" />
+              </button>
+              {isStyleMenuOpen && count > 0 && (
+                <div className="absolute top-full left-1/2 -translate-x-1/2 mt-3 w-56 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-xl p-2 shadow-[0_10px_40px_rgba(0,0,0,0.6)]">
+                  <StylePresetMenu
+                    allowKeep
+                    allowDefault
+                    onPick={(presetId) => {
+                      setIsStyleMenuOpen(false);
+                      selectionManager.reanalyzeSelected(presetId);
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => selectionManager.deleteSelected()}
+              disabled={count === 0}
+              title={t('common.delete')}
+              className="p-2 rounded-full text-rose-200/70 hover:text-rose-100 hover:bg-rose-500/20 disabled:opacity-30 transition-colors"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+
+            <div className="w-px h-6 bg-white/10 mx-1" />
+
+            <button
+              onClick={() => selectionManager.setSelecting(false)}
+              title={t('common.done')}
+              className="p-2 rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </MotionDiv>
+      )}
+    </AnimatePresence>
+  );
+};
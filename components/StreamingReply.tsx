@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { useMemoryStore } from '../stores/memoryStore';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Chunks can hold many characters at once; the bubble types them out at this pace,
+// speeding up when it falls far behind the stream
+const TYPE_INTERVAL_MS = 30;
+const CATCH_UP_STEPS = 20;
+
+interface StreamingReplyProps {
+  memoryId: string;
+}
+
+/**
+ * The AI reply in progress at the end of a conversation thread: waiting dots until the first
+ * characters arrive, then the text typed out as it streams. A stopped reply offers keep / discard.
+ * Only a reply about `memoryId` shows here.
+ */
+export const StreamingReply: React.FC<StreamingReplyProps> = ({ memoryId }) => {
+  const { memoryManager } = usePresenter();
+  const { t } = useTranslation();
+  const replyDraft = useMemoryStore(s => s.replyDraft);
+  const [shownLength, setShownLength] = useState(0);
+
+  const draft = replyDraft?.memoryId === memoryId ? replyDraft : null;
+  const text = draft?.text ?? '';
+  const isStopped = draft?.status === 'stopped';
+
+  useEffect(() => {
+    if (!draft) setShownLength(0);
+  }, [draft]);
+
+  useEffect(() => {
+    if (shownLength >= text.length) return;
+    if (isStopped) {
+      setShownLength(text.length);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setShownLength(n => Math.min(text.length, n + Math.max(1, Math.ceil((text.length - n) / CATCH_UP_STEPS))));
+    }, TYPE_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [shownLength, text, isStopped]);
+
+  if (!draft) return null;
+
+  if (!text && !isStopped) {
+    return (
+      <div className="flex items-center gap-1.5 px-4 py-3 w-fit rounded-2xl rounded-tl-sm bg-indigo-400/10 border border-indigo-200/10">
+        <span className="w-1.5 h-1.5 rounded-full bg-indigo-200/70 animate-pulse" />
+        <span className="w-1.5 h-1.5 rounded-full bg-indigo-200/70 animate-pulse [animation-delay:150ms]" />
+        <span className="w-1.5 h-1.5 rounded-full bg-indigo-200/70 animate-pulse [animation-delay:300ms]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-start gap-1.5">
+      <div className={`max-w-[80%] px-4 py-2 rounded-2xl rounded-tl-sm text-sm leading-relaxed tracking-wide font-serif italic border ${isStopped
+        ? 'bg-white/5 border-dashed border-white/15 text-indigo-50/60'
+        : 'bg-indigo-400/10 border-indigo-200/10 text-indigo-50/90'}`}
+      >
+        {text.slice(0, shownLength)}
+        {!isStopped && <span className="inline-block w-[2px] h-[1em] ml-0.5 align-[-2px] bg-indigo-200/70 animate-pulse" />}
+      </div>
+      {isStopped && (
+        <div className="flex items-center gap-2 pl-2 text-[11px]">
+          <span className="text-white/40">{t('modal.replyStopped')}</span>
+          <button
+            onClick={() => memoryManager.keepPartialReply()}
+            className="px-2 py-0.5 rounded-full bg-indigo-500/20 text-indigo-100 hover:bg-indigo-500/30 transition-colors"
+          >
+            {t('modal.keepReply')}
+          </button>
+          <button
+            onClick={() => memoryManager.discardPartialReply()}
+            className="px-2 py-0.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            {t('modal.discardReply')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
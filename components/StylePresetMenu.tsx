@@ -0,0 +1,44 @@
+import React from 'react';
+import { CheckIcon } from '@heroicons/react/24/outline';
+import { StylePresetId } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { useStyleStore } from '../stores/styleStore';
+import { STYLE_PRESETS } from '../services/stylePresets';
+
+interface StylePresetMenuProps {
+  // The option to mark as chosen: a preset, or null for the space default
+  current?: StylePresetId | null;
+  // Offer "follow the space default" (picked as null)
+  allowDefault?: boolean;
+  // Offer "keep each memory's style" (picked as undefined), for batches
+  allowKeep?: boolean;
+  onPick: (presetId: StylePresetId | null | undefined) => void;
+}
+
+/**
+ * List of interpretation styles. The caller positions it and decides what picking does.
+ */
+export const StylePresetMenu: React.FC<StylePresetMenuProps> = ({ current, allowDefault, allowKeep, onPick }) => {
+  const { t } = useTranslation();
+  const defaultPresetId = useStyleStore(s => s.defaultPresetId);
+
+  const option = (key: string, label: string, isCurrent: boolean, presetId: StylePresetId | null | undefined) => (
+    <button
+      key={key}
+      onClick={() => onPick(presetId)}
+      className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left text-white/80 hover:bg-white/10 transition-colors"
+    >
+      {label}
+      {isCurrent && <CheckIcon className="ml-auto w-4 h-4 flex-shrink-0 text-indigo-200" />}
+    </button>
+  );
+
+  return (
+    <>
+      {allowKeep && option('keep', t('style.keepEach'), false, undefined)}
+      {allowDefault && option('default', t('style.followDefault', { name: t(`style.${defaultPresetId}`) }), current === null, null)}
+      {(allowKeep || allowDefault) && <div className="h-px bg-white/10 my-1" />}
+      {(Object.keys(STYLE_PRESETS) as StylePresetId[]).map(id => option(id, t(`style.${id}`), current === id, id))}
+    </>
+  );
+};
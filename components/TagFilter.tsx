@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { TagIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryStore, getVisibleMemories } from '../stores/memoryStore';
+import { collectTags } from '../services/tagService';
+
+const MotionDiv = motion.div as any;
+
+// Tags offered in the dropdown; the rest are reachable by narrowing with the ones shown
+const MAX_LISTED_TAGS = 30;
+
+export const TagFilter: React.FC = () => {
+  const memories = useMemoryStore(s => s.memories);
+  const showArchived = useMemoryStore(s => s.showArchived);
+  const tagFilter = useMemoryStore(s => s.tagFilter);
+
+  const { memoryManager } = usePresenter();
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Counts reflect what the filter would leave visible, so every listed tag narrows to something
+  const tags = useMemo(() => {
+    const candidates = getVisibleMemories({ memories, showArchived, tagFilter });
+    return collectTags(candidates).filter(t => !tagFilter.includes(t.tag)).slice(0, MAX_LISTED_TAGS);
+  }, [memories, showArchived, tagFilter]);
+
+  if (tagFilter.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className="absolute top-6 left-6 z-[55] pointer-events-auto flex flex-col items-start gap-2">
+      <div className="flex items-center flex-wrap gap-1.5 max-w-[60vw]">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs tracking-wide backdrop-blur-md transition-colors ${isOpen || tagFilter.length > 0 ? 'bg-white/15 border-white/20 text-white' : 'bg-black/30 border-white/10 text-white/50 hover:text-white'}`}
+        >
+          <TagIcon className="w-4 h-4" />
+          {t('tags.filter')}
+        </button>
+
+        {tagFilter.map(tag => (
+          <button
+            key={tag}
+            onClick={() => memoryManager.toggleTagFilter(tag)}
+            className="flex items-center gap-1 pl-3 pr-2 py-1.5 rounded-full bg-indigo-500/30 border border-indigo-300/30 text-xs text-indigo-100 hover:bg-indigo-500/40 transition-colors"
+          >
+            {tag}
+            <XMarkIcon className="w-3 h-3" />
+          </button>
+        ))}
+
+        {tagFilter.length > 0 && (
+          <button
+            onClick={() => memoryManager.clearTagFilter()}
+            className="px-2 py-1.5 text-[10px] text-white/40 hover:text-white transition-colors"
+          >
+            {t('common.clear')}
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {isOpen && (
+          <MotionDiv
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.2 }}
+            className="w-64 max-h-[50vh] overflow-y-auto no-scrollbar bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-[0_10px_40px_rgba(0,0,0,0.6)]"
+          >
+            {tags.length === 0 ? (
+              <p className="text-xs text-white/40">{t('tags.noMore')}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    onClick={() => memoryManager.toggleTagFilter(tag)}
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-white/5 border border-white/10 text-xs text-white/70 hover:bg-white/15 hover:text-white transition-colors"
+                  >
+                    {tag}
+                    <span className="text-[10px] text-white/30">{count}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
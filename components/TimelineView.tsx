@@ -0,0 +1,223 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { MagnifyingGlassMinusIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useVisibleMemories } from '../hooks/useVisibleMemories';
+import { useMemoryStore } from '../stores/memoryStore';
+import { useTimelineStore, TimelineZoom } from '../stores/timelineStore';
+import { buildTimelineBuckets, TimelineBucket } from '../services/timelineBuckets';
+import { posterUrlOf } from './MemoryMedia';
+import { Locale, MessageKey, formatDate } from '../services/i18n';
+
+const MotionDiv = motion.div as any;
+
+const BUCKET_WIDTH: Record<TimelineZoom, number> = {
+  year: 180,
+  month: 140,
+  day: 96,
+};
+
+const ZOOM_LABELS: Record<TimelineZoom, MessageKey> = {
+  year: 'timeline.zoom.year',
+  month: 'timeline.zoom.month',
+  day: 'timeline.zoom.day',
+};
+
+// Cards drawn per stack (collapsed / fanned out on hover); the rest are summarized by the count badge
+const MAX_STACK_CARDS = 4;
+const MAX_FANNED_CARDS = 8;
+
+const formatBucketLabel = (locale: Locale, start: number, zoom: TimelineZoom) => {
+  switch (zoom) {
+    case 'year':
+      return formatDate(locale, start, { year: 'numeric' });
+    case 'month':
+      return formatDate(locale, start, { year: 'numeric', month: 'short' });
+    case 'day':
+      return formatDate(locale, start, { month: 'short', day: 'numeric' });
+  }
+};
+
+export const TimelineView: React.FC = () => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Stores
+  const memories = useVisibleMemories();
+  const zoom = useTimelineStore(s => s.zoom);
+  const selectedIds = useMemoryStore(s => s.selectedIds);
+
+  // Logic
+  const { timelineManager, memoryManager, selectionManager } = usePresenter();
+  const { t } = useTranslation();
+
+  const buckets = useMemo(() => buildTimelineBuckets(memories, zoom), [memories, zoom]);
+  const bucketWidth = BUCKET_WIDTH[zoom];
+
+  // Center the axis on the focus time whenever the zoom level changes
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || buckets.length === 0) return;
+
+    const { focusTime } = useTimelineStore.getState();
+    let index = buckets.length - 1;
+    if (focusTime !== null) {
+      const found = buckets.findIndex(b => focusTime >= b.start && focusTime < b.end);
+      if (found >= 0) index = found;
+      else if (focusTime < buckets[0].start) index = 0;
+    }
+
+    // The axis is padded by half a viewport on each side, so scrollLeft maps straight onto bucket offsets
+    container.scrollLeft = index * bucketWidth + bucketWidth / 2;
+    // Only the zoom level drives re-centering; scrolling updates the focus time itself
+  }, [zoom, buckets.length === 0]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container || buckets.length === 0) return;
+    const centerIndex = Math.floor(container.scrollLeft / bucketWidth);
+    const bucket = buckets[Math.max(0, Math.min(buckets.length - 1, centerIndex))];
+    timelineManager.setFocusTime(bucket.start);
+  };
+
+  // Vertical wheel scrolls the horizontal axis
+  const handleWheel = (e: React.WheelEvent) => {
+    e.stopPropagation();
+    if (scrollRef.current && Math.abs(e.deltaY) > Math.abs(e.deltaX)) {
+      scrollRef.current.scrollLeft += e.deltaY;
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-10 overflow-hidden select-none bg-slate-900/50 backdrop-blur-sm">
+      {/* Zoom Controls */}
+      <div className="absolute top-8 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 pointer-events-auto">
+        <button
+          onClick={() => timelineManager.zoomOut()}
+          disabled={zoom === 'year'}
+          className="p-2 rounded-full bg-white/5 border border-white/10 text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors"
+        >
+          <MagnifyingGlassMinusIcon className="w-4 h-4" />
+        </button>
+        <div className="flex items-center bg-black/40 p-1 rounded-full border border-white/5">
+          {(Object.keys(ZOOM_LABELS) as TimelineZoom[]).map(level => (
+            <button
+              key={level}
+              onClick={() => timelineManager.setZoom(level)}
+              className={`px-4 py-1.5 rounded-full text-xs tracking-widest transition-all duration-300 ${zoom === level ? 'bg-white/20 text-white ring-1 ring-white/10' : 'text-white/40 hover:text-white/70'}`}
+            >
+              {t(ZOOM_LABELS[level])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        onWheel={handleWheel}
+        className="absolute inset-0 overflow-x-auto overflow-y-hidden no-scrollbar"
+      >
+        <div
+          className="relative h-full"
+          style={{ width: buckets.length * bucketWidth, paddingLeft: '50%', paddingRight: '50%', boxSizing: 'content-box' }}
+        >
+          {/* Axis */}
+          <div className="absolute left-0 right-0 top-1/2 h-px bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+
+          <div className="relative h-full flex">
+            {buckets.map((bucket) => (
+              <TimelineColumn
+                key={bucket.start}
+                bucket={bucket}
+                zoom={zoom}
+                width={bucketWidth}
+                onZoomIn={() => timelineManager.zoomIn(bucket.start)}
+                selectedIds={selectedIds}
+                onSelect={(id, e) => {
+                  if (selectionManager.handleItemClick(id, e)) return;
+                  memoryManager.selectMemory(id);
+                }}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface TimelineColumnProps {
+  bucket: TimelineBucket;
+  zoom: TimelineZoom;
+  width: number;
+  onZoomIn: () => void;
+  selectedIds: string[];
+  onSelect: (id: string, e: React.MouseEvent) => void;
+}
+
+const TimelineColumn: React.FC<TimelineColumnProps> = ({ bucket, zoom, width, selectedIds, onZoomIn, onSelect }) => {
+  const { locale } = useTranslation();
+  const [isFanned, setIsFanned] = useState(false);
+  const count = bucket.memories.length;
+  const isEmpty = count === 0;
+  const cards = bucket.memories.slice(0, isFanned ? MAX_FANNED_CARDS : MAX_STACK_CARDS);
+
+  return (
+    <div className="relative h-full flex-shrink-0" style={{ width }}>
+      {/* Tick (a gap breaks the axis instead) */}
+      {bucket.isGap ? (
+        <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 text-white/40 text-xs leading-none tracking-[0.3em]">⋯</div>
+      ) : (
+        <div className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full ${isEmpty ? 'w-1 h-1 bg-white/15' : 'w-2 h-2 bg-indigo-200 shadow-[0_0_10px_rgba(199,210,254,0.8)]'}`} />
+      )}
+
+      {/* Period Label */}
+      <button
+        onClick={onZoomIn}
+        disabled={zoom === 'day' || isEmpty}
+        className={`absolute left-1/2 top-1/2 -translate-x-1/2 mt-5 text-[10px] tracking-widest whitespace-nowrap transition-colors ${isEmpty ? 'text-white/15' : 'text-white/60 hover:text-white enabled:cursor-zoom-in'}`}
+      >
+        {bucket.isGap
+          // The gap's end is exclusive, so its last millisecond falls in the last empty period
+          ? `${formatBucketLabel(locale, bucket.start, zoom)} … ${formatBucketLabel(locale, bucket.end - 1, zoom)}`
+          : formatBucketLabel(locale, bucket.start, zoom)}
+      </button>
+
+      {/* Stack */}
+      {!isEmpty && (
+        <div
+          className="absolute left-1/2 bottom-1/2 -translate-x-1/2 mb-8"
+          style={{ width: width - 24, height: (width - 24) * 0.75 }}
+          onMouseEnter={() => setIsFanned(true)}
+          onMouseLeave={() => setIsFanned(false)}
+        >
+          {cards.map((memory, i) => {
+            const depth = cards.length - 1 - i;
+            const isSelected = selectedIds.includes(memory.id);
+            return (
+              <MotionDiv
+                key={memory.id}
+                className={`absolute inset-0 rounded-lg overflow-hidden border bg-slate-900 shadow-xl cursor-pointer ${isSelected ? 'border-indigo-300 ring-2 ring-indigo-300/70' : 'border-white/15'}`}
+                style={{ zIndex: i }}
+                animate={isFanned
+                  ? { y: -depth * (width * 0.55), rotate: 0, scale: 1 }
+                  : { y: -depth * 4, rotate: depth * 3 - 3, scale: 1 - depth * 0.04 }}
+                transition={{ type: 'spring', stiffness: 260, damping: 24 }}
+                onClick={(e: React.MouseEvent) => onSelect(memory.id, e)}
+              >
+                <img src={posterUrlOf(memory)} alt="memory" className="w-full h-full object-cover" draggable={false} />
+              </MotionDiv>
+            );
+          })}
+
+          {count > 1 && (
+            <div className="absolute -top-2 -right-2 z-20 min-w-[20px] h-5 px-1.5 rounded-full bg-indigo-500/80 text-[10px] text-white flex items-center justify-center border border-white/20">
+              {count}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
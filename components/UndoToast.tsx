@@ -0,0 +1,40 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { useMemoryStore } from '../stores/memoryStore';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MotionDiv = motion.div as any;
+
+export const UndoToast: React.FC = () => {
+  const pendingDeletion = useMemoryStore(s => s.pendingDeletion);
+  const { memoryManager } = usePresenter();
+  const { t } = useTranslation();
+
+  return (
+    <AnimatePresence>
+      {pendingDeletion && (
+        <MotionDiv
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="absolute bottom-32 left-1/2 -translate-x-1/2 z-[60] pointer-events-auto"
+        >
+          <div className="flex items-center gap-4 bg-slate-900/90 backdrop-blur-md px-5 py-3 rounded-xl border border-white/10 shadow-[0_10px_30px_rgba(0,0,0,0.5)]">
+            <span className="text-sm text-white/70 whitespace-nowrap">
+              {t('undo.deleted', { count: pendingDeletion.length })}
+            </span>
+            <button
+              onClick={() => memoryManager.undoRemove()}
+              className="flex items-center gap-1.5 text-sm text-indigo-200 hover:text-white transition-colors"
+            >
+              <ArrowUturnLeftIcon className="w-4 h-4" />
+              {t('undo.undo')}
+            </button>
+          </div>
+        </MotionDiv>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronUpIcon, XMarkIcon, ArrowPathIcon, CheckIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useIngestStore, IngestStatus } from '../stores/ingestStore';
+import { MessageKey } from '../services/i18n';
+
+const MotionDiv = motion.div as any;
+
+const STATUS_LABELS: Record<IngestStatus, MessageKey> = {
+  queued: 'ingest.status.queued',
+  analyzing: 'ingest.status.analyzing',
+  done: 'ingest.status.done',
+  failed: 'ingest.status.failed',
+  cancelled: 'ingest.status.cancelled',
+};
+
+export const UploadTray: React.FC = () => {
+  const jobs = useIngestStore(s => s.jobs);
+  const { ingestManager, memoryManager } = usePresenter();
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const count = (status: IngestStatus) => jobs.filter(j => j.status === status).length;
+  const queued = count('queued');
+  const analyzing = count('analyzing');
+  const done = count('done');
+  const failed = count('failed');
+  const finished = jobs.length - queued - analyzing;
+
+  return (
+    <AnimatePresence>
+      {jobs.length > 0 && (
+        <MotionDiv
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="absolute bottom-32 right-6 z-[60] w-72 pointer-events-auto bg-slate-900/90 backdrop-blur-md rounded-xl border border-white/10 shadow-[0_10px_30px_rgba(0,0,0,0.5)] overflow-hidden"
+        >
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="w-full flex items-center gap-3 px-4 py-3 text-left"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-white/80 tracking-wide">
+                {queued + analyzing > 0 ? t('ingest.progress', { finished, total: jobs.length }) : t('ingest.finished', { count: jobs.length })}
+              </div>
+              <div className="mt-1 text-[10px] text-white/40 tracking-wider">
+                {t('ingest.summary', { queued, analyzing, done })}{failed > 0 && <span className="text-rose-300/80">{t('ingest.summaryFailed', { failed })}</span>}
+              </div>
+            </div>
+            <ChevronUpIcon className={`w-4 h-4 text-white/40 transition-transform ${isExpanded ? '' : 'rotate-180'}`} />
+          </button>
+
+          <div className="h-0.5 bg-white/5">
+            <div
+              className="h-full bg-indigo-300/60 transition-all duration-500"
+              style={{ width: `${(finished / jobs.length) * 100}%` }}
+            />
+          </div>
+
+          {isExpanded && (
+            <div className="max-h-56 overflow-y-auto no-scrollbar py-1">
+              {jobs.map(job => (
+                <div key={job.memoryId} className="flex items-center gap-2 px-4 py-1.5 text-xs">
+                  <span className="flex-1 truncate text-white/60">{job.label}</span>
+                  <span className={`flex items-center gap-1 whitespace-nowrap ${job.status === 'failed' ? 'text-rose-300/80' : 'text-white/40'}`}>
+                    {job.status === 'done' && <CheckIcon className="w-3 h-3" />}
+                    {job.status === 'failed' && <ExclamationTriangleIcon className="w-3 h-3" />}
+                    {t(STATUS_LABELS[job.status])}
+                    {job.status === 'analyzing' && job.attempts > 1 && ` (${job.attempts})`}
+                  </span>
+                  {(job.status === 'queued' || job.status === 'analyzing') && (
+                    <button
+                      onClick={() => ingestManager.cancel(job.memoryId)}
+                      title={t('common.cancel')}
+                      className="p-0.5 rounded-full text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                      <XMarkIcon className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {job.status === 'failed' && (
+                    <button
+                      onClick={() => memoryManager.retryAnalysis([job.memoryId])}
+                      title={t('common.retry')}
+                      className="p-0.5 rounded-full text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                      <ArrowPathIcon className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {finished > 0 && (
+            <div className="flex justify-end px-3 py-2 border-t border-white/5">
+              <button
+                onClick={() => ingestManager.clearFinished()}
+                className="text-[10px] text-white/40 hover:text-white transition-colors"
+              >
+                {t('ingest.clearFinished')}
+              </button>
+            </div>
+          )}
+        </MotionDiv>
+      )}
+    </AnimatePresence>
+  );
+};
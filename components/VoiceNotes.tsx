@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MicrophoneIcon, StopIcon, PlayIcon, PauseIcon, TrashIcon, ChatBubbleLeftEllipsisIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { Memory, VoiceNote } from '../types';
+import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useVoiceNoteStore } from '../stores/voiceNoteStore';
+import { useMemoryStore } from '../stores/memoryStore';
+
+const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+interface VoiceNotesProps {
+  memory: Memory;
+}
+
+/**
+ * Recorder and list of the spoken stories attached to a memory.
+ */
+export const VoiceNotes: React.FC<VoiceNotesProps> = ({ memory }) => {
+  const { voiceNoteManager } = usePresenter();
+  const { t } = useTranslation();
+  const recordingMemoryId = useVoiceNoteStore(s => s.recordingMemoryId);
+  const recordingStartedAt = useVoiceNoteStore(s => s.recordingStartedAt);
+  const recordingError = useVoiceNoteStore(s => s.recordingError);
+  const [elapsed, setElapsed] = useState(0);
+
+  const isRecording = recordingMemoryId === memory.id;
+  const notes = memory.voiceNotes ?? [];
+
+  // A recording never outlives the modal it was started from
+  useEffect(() => () => voiceNoteManager.cancelRecording(), [memory.id, voiceNoteManager]);
+
+  useEffect(() => {
+    if (!isRecording || recordingStartedAt === null) return;
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed((Date.now() - recordingStartedAt) / 1000), 250);
+    return () => clearInterval(timer);
+  }, [isRecording, recordingStartedAt]);
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => isRecording ? voiceNoteManager.stopRecording() : voiceNoteManager.startRecording(memory.id)}
+          disabled={recordingMemoryId !== null && !isRecording}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs border transition-colors disabled:opacity-30 ${isRecording ? 'bg-rose-500/20 border-rose-300/40 text-rose-100' : 'bg-white/5 border-white/10 text-white/60 hover:text-white hover:bg-white/10'}`}
+        >
+          {isRecording ? <StopIcon className="w-3.5 h-3.5" /> : <MicrophoneIcon className="w-3.5 h-3.5" />}
+          {isRecording ? t('voice.stop', { duration: formatDuration(elapsed) }) : t('voice.record')}
+        </button>
+        {isRecording && <span className="w-2 h-2 rounded-full bg-rose-400 animate-pulse" />}
+        {recordingError && !isRecording && <span className="text-[11px] text-rose-200/70">{t(recordingError)}</span>}
+      </div>
+
+      {notes.map(note => (
+        <VoiceNoteItem key={note.id} memoryId={memory.id} note={note} />
+      ))}
+    </div>
+  );
+};
+
+interface VoiceNoteItemProps {
+  memoryId: string;
+  note: VoiceNote;
+}
+
+const VoiceNoteItem: React.FC<VoiceNoteItemProps> = ({ memoryId, note }) => {
+  const { voiceNoteManager } = usePresenter();
+  const { t } = useTranslation();
+  const isProcessing = useMemoryStore(s => s.isProcessing);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // Recordings that couldn't be decoded on capture report their length once loaded
+  const [duration, setDuration] = useState(note.duration);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play();
+    else audio.pause();
+  };
+
+  const bars = note.waveform.length > 0 ? note.waveform : new Array(24).fill(0.15);
+
+  return (
+    <div className="group/note p-3 rounded-xl bg-white/[0.03] border border-white/5">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlayback}
+          disabled={!note.url}
+          className="p-1.5 rounded-full bg-white/10 text-white/80 hover:bg-white/20 disabled:opacity-30 transition-colors"
+        >
+          {isPlaying ? <PauseIcon className="w-3.5 h-3.5" /> : <PlayIcon className="w-3.5 h-3.5" />}
+        </button>
+
+        <div className="flex-1 flex items-center gap-[2px] h-6">
+          {bars.map((level, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full transition-colors ${i / bars.length < progress ? 'bg-indigo-200/80' : 'bg-white/20'}`}
+              style={{ height: `${Math.max(8, level * 100)}%` }}
+            />
+          ))}
+        </div>
+
+        <span className="text-[10px] text-white/40 tabular-nums">{formatDuration(duration)}</span>
+
+        <div className="flex items-center gap-0.5 opacity-0 group-hover/note:opacity-100 transition-opacity">
+          <button
+            onClick={() => voiceNoteManager.askWithTranscript(memoryId, note.id)}
+            disabled={!note.transcript || isProcessing}
+            title={t('voice.ask')}
+            className="p-1 rounded-full text-white/40 hover:text-indigo-200 hover:bg-white/10 disabled:opacity-30 transition-colors"
+          >
+            <ChatBubbleLeftEllipsisIcon className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => voiceNoteManager.removeVoiceNote(memoryId, note.id)}
+            title={t('common.delete')}
+            className="p-1 rounded-full text-white/40 hover:text-rose-200 hover:bg-white/10 transition-colors"
+          >
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {note.url && (
+          <audio
+            ref={audioRef}
+            src={note.url}
+            preload="metadata"
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => { setIsPlaying(false); setProgress(0); }}
+            onLoadedMetadata={(e) => {
+              const value = e.currentTarget.duration;
+              if (!note.duration && Number.isFinite(value)) setDuration(value);
+            }}
+            onTimeUpdate={(e) => {
+              const total = duration || e.currentTarget.duration;
+              if (total) setProgress(e.currentTarget.currentTime / total);
+            }}
+          />
+        )}
+      </div>
+
+      <div className="mt-2 text-xs leading-relaxed">
+        {note.isTranscribing ? (
+          <span className="text-white/30 animate-pulse">{t('voice.transcribing')}</span>
+        ) : note.transcript !== undefined ? (
+          <p className="text-white/60 font-light">{note.transcript || t('voice.inaudible')}</p>
+        ) : (
+          <button
+            onClick={() => voiceNoteManager.retranscribe(memoryId, note.id)}
+            className="flex items-center gap-1 text-white/40 hover:text-white transition-colors"
+          >
+            <ArrowPathIcon className="w-3 h-3" />
+            {t('voice.transcriptionFailed')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,30 @@
 import React, { useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence, useMotionValue, useSpring, useTransform } from 'framer-motion';
-import { ChevronLeftIcon, ChevronRightIcon, PauseIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { ChevronLeftIcon, ChevronRightIcon, PauseIcon, PlayIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { usePresenter } from '../hooks/usePresenter';
+import { useTranslation } from '../hooks/useTranslation';
+import { useMemoryCaption } from '../hooks/useMemoryCaption';
+import { useSearchedMemories } from '../hooks/useSearchedMemories';
 import { useMemoryStore } from '../stores/memoryStore';
 import { useWorldStore } from '../stores/worldStore';
+import { MemoryMedia, posterUrlOf } from './MemoryMedia';
 
 const MotionDiv = motion.div as any;
-const MotionImg = motion.img as any;
 const MotionP = motion.p as any;
 
 export const WorldView: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Stores
-  const memories = useMemoryStore(s => s.memories);
+  const memories = useSearchedMemories();
   const activeIndex = useWorldStore(s => s.activeIndex);
   const isPlaying = useWorldStore(s => s.isPlaying);
+  const selectedIds = useMemoryStore(s => s.selectedIds);
   
   // Logic
-  const { worldManager, memoryManager } = usePresenter();
+  const { worldManager, memoryManager, selectionManager } = usePresenter();
+  const { t, formatDate } = useTranslation();
+  const captionOf = useMemoryCaption();
 
   const sortedMemories = useMemo(() => {
     return [...memories].sort((a, b) => a.timestamp - b.timestamp);
@@ -64,6 +70,8 @@ export const WorldView: React.FC = () => {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (memories.length === 0) return;
+      // Keys typed into the search bar (or any other field) aren't navigation
+      if ((e.target as HTMLElement).closest('input, textarea')) return;
       if (e.key === 'ArrowRight') worldManager.navigateNext();
       if (e.key === 'ArrowLeft') worldManager.navigatePrev();
       if (e.key === ' ') {
@@ -77,6 +85,7 @@ export const WorldView: React.FC = () => {
 
   if (!sortedMemories || sortedMemories.length === 0) return null;
   if (!activeMemory) return null;
+  const activePoster = posterUrlOf(activeMemory);
 
   return (
     <div 
@@ -96,9 +105,10 @@ export const WorldView: React.FC = () => {
         >
             <div 
               className="absolute inset-0 bg-cover bg-center blur-[30px] opacity-40 scale-110 brightness-75 transition-all duration-700"
-              style={{ 
-                  backgroundImage: `url(${activeMemory.url})`
-              }}
+              style={activePoster
+                  ? { backgroundImage: `url(${activePoster})` }
+                  // A clip without a poster frame yet gets the night sky the rest of the app sits on
+                  : { backgroundImage: 'linear-gradient(135deg, #0f172a, #1e1b4b 50%, #020617)' }}
             />
             <div 
               className="absolute inset-0"
@@ -127,15 +137,20 @@ export const WorldView: React.FC = () => {
                         transformStyle: 'preserve-3d'
                     }}
                     className="relative w-auto h-full max-h-full aspect-auto shadow-[0_30px_60px_-12px_rgba(0,0,0,0.5)] cursor-pointer pointer-events-auto"
-                    onClick={() => memoryManager.selectMemory(activeMemory.id)}
+                    onClick={(e: React.MouseEvent) => {
+                        if (selectionManager.handleItemClick(activeMemory.id, e)) return;
+                        memoryManager.selectMemory(activeMemory.id);
+                    }}
                 >
-                    <MotionImg 
-                        src={activeMemory.url} 
+                    <MemoryMedia 
+                        memory={activeMemory}
+                        mode="ambient"
                         className="w-full h-full object-contain rounded-sm shadow-2xl relative z-10 bg-black/50"
                         style={{
-                            border: '1px solid rgba(255,255,255,0.1)'
+                            border: selectedIds.includes(activeMemory.id)
+                                ? '2px solid rgba(165,180,252,0.9)'
+                                : '1px solid rgba(255,255,255,0.1)'
                         }}
-                        draggable={false}
                     />
 
                     <div className="absolute inset-0 z-20 rounded-sm bg-gradient-to-tr from-white/10 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-700 pointer-events-none mix-blend-overlay" />
@@ -161,20 +176,37 @@ export const WorldView: React.FC = () => {
                             transition={{ duration: 0.3, delay: 0.1 }}
                             className="text-xs font-sans uppercase tracking-[0.4em] text-white/50 mb-4"
                         >
-                           Memories No. {activeIndex + 1}
+                           {t('world.index', { index: activeIndex + 1 })}
                         </MotionP>
                     </div>
 
-                    <h2 className="text-2xl md:text-5xl font-serif text-white leading-tight drop-shadow-lg font-light tracking-wide mb-6">
-                        <span className="bg-clip-text text-transparent bg-gradient-to-b from-white to-white/60">
-                            {activeMemory.description}
-                        </span>
-                    </h2>
+                    {activeMemory.description ? (
+                        <h2 className="text-2xl md:text-5xl font-serif text-white leading-tight drop-shadow-lg font-light tracking-wide mb-6 whitespace-pre-line">
+                            <span className="bg-clip-text text-transparent bg-gradient-to-b from-white to-white/60">
+                                {activeMemory.description}
+                            </span>
+                        </h2>
+                    ) : (
+                        <p className={`flex items-center justify-center md:justify-start gap-2 text-sm md:text-base tracking-wide mb-6 ${activeMemory.analysisStatus === 'failed' ? 'text-rose-200/90' : 'text-white/50'}`}>
+                            {activeMemory.analysisStatus === 'failed' && <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />}
+                            {captionOf(activeMemory)}
+                        </p>
+                    )}
+
+                    {activeMemory.analysisStatus === 'failed' && (
+                        <button
+                            onClick={() => memoryManager.retryAnalysis([activeMemory.id])}
+                            className="pointer-events-auto mb-6 inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs bg-rose-500/20 border border-rose-300/30 text-rose-100 hover:bg-rose-500/30 transition-colors"
+                        >
+                            <ArrowPathIcon className="w-3.5 h-3.5" />
+                            {t('common.retry')}
+                        </button>
+                    )}
 
                     <div className="flex items-center justify-center md:justify-start gap-3 opacity-60">
                          <span className="h-px w-8 bg-white/50"></span>
                          <span className="text-xs font-mono text-white/80">
-                             {new Date(activeMemory.timestamp).toLocaleDateString().replace(/\//g, '.')}
+                             {formatDate(activeMemory.timestamp)}
                          </span>
                     </div>
                 </MotionDiv>
@@ -190,7 +222,7 @@ export const WorldView: React.FC = () => {
         >
           {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
           <span className="text-[10px] uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-            {isPlaying ? 'Pause Drift' : 'Auto Drift'}
+            {isPlaying ? t('world.pauseDrift') : t('world.autoDrift')}
           </span>
         </button>
       </div>
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { Memory } from '../types';
+import { useTranslation } from './useTranslation';
+
+/**
+ * What the views show for a memory: its description, or while it has none, a line about its analysis.
+ * Status lines are never stored, so they can't be mistaken for the memory's own words.
+ */
+export const useMemoryCaption = () => {
+  const { t } = useTranslation();
+  return useCallback((memory: Memory) => {
+    if (memory.description) return memory.description;
+    switch (memory.analysisStatus) {
+      case 'pending':
+      case 'running':
+        return t('memory.awakening');
+      case 'failed':
+        return t(`analysisError.${memory.analysisError ?? 'provider'}`);
+      case 'cancelled':
+        return t('memory.uninterpreted');
+      default:
+        return '';
+    }
+  }, [t]);
+};
@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useVisibleMemories } from './useVisibleMemories';
+import { useSearchStore, narrowToMatches } from '../stores/searchStore';
+
+/**
+ * Visible memories narrowed to the active search, for the list-based views (gallery, world).
+ */
+export const useSearchedMemories = () => {
+  const memories = useVisibleMemories();
+  const matchedIds = useSearchStore(s => s.matchedIds);
+  return useMemo(() => narrowToMatches(memories, matchedIds), [memories, matchedIds]);
+};
@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useLocaleStore } from '../stores/localeStore';
+import { MessageKey, MessageParams, translate, formatDate } from '../services/i18n';
+
+/**
+ * Message lookup and date formatting bound to the current locale.
+ * Components re-render with the new strings when the locale switches.
+ */
+export const useTranslation = () => {
+  const locale = useLocaleStore(s => s.locale);
+  return useMemo(() => ({
+    locale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    formatDate: (timestamp: number, options?: Intl.DateTimeFormatOptions) => formatDate(locale, timestamp, options),
+  }), [locale]);
+};
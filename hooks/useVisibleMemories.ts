@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useMemoryStore, getVisibleMemories } from '../stores/memoryStore';
+
+/**
+ * Memories shown by the views. Derived with useMemo so the array identity only changes
+ * when its inputs do (a filtering selector would hand zustand a new array on every call).
+ */
+export const useVisibleMemories = () => {
+  const memories = useMemoryStore(s => s.memories);
+  const showArchived = useMemoryStore(s => s.showArchived);
+  const tagFilter = useMemoryStore(s => s.tagFilter);
+  return useMemo(
+    () => getVisibleMemories({ memories, showArchived, tagFilter }),
+    [memories, showArchived, tagFilter]
+  );
+};
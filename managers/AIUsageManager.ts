@@ -0,0 +1,17 @@
+import { getAIUsage, subscribeToAIUsage } from '../services/ai/rateLimiter';
+import { useAIUsageStore } from '../stores/aiUsageStore';
+
+export class AIUsageManager {
+  constructor() {
+    // The limiter lives in the AI service layer; the store only reflects it for the UI
+    useAIUsageStore.getState().setUsage(getAIUsage());
+    subscribeToAIUsage(useAIUsageStore.getState().setUsage);
+  }
+
+  /**
+   * Re-reads usage, e.g. so a quota that ran out yesterday stops being reported once the day has turned.
+   */
+  refreshUsage = () => {
+    useAIUsageStore.getState().setUsage(getAIUsage());
+  };
+}
@@ -0,0 +1,63 @@
+import { useMemoryStore } from '../stores/memoryStore';
+import { useDuplicateStore } from '../stores/duplicateStore';
+import { DuplicatePair, findDuplicatePairs } from '../services/duplicateService';
+import { MemoryManager } from './MemoryManager';
+
+export class DuplicateManager {
+  constructor(private memoryManager: MemoryManager) {
+    // Pairs that lost a memory (deleted elsewhere, or merged away) have nothing left to review
+    useMemoryStore.subscribe((state, prev) => {
+      if (state.memories === prev.memories || useDuplicateStore.getState().pairs.length === 0) return;
+      const currentIds = new Set(state.memories.map(m => m.id));
+      const removedIds = prev.memories.filter(m => !currentIds.has(m.id)).map(m => m.id);
+      if (removedIds.length > 0) useDuplicateStore.getState().removePairs(removedIds);
+    });
+  }
+
+  /**
+   * Drops the look-alike memory. It can be restored from the undo toast like any deletion.
+   */
+  skip = (pair: DuplicatePair) => {
+    useDuplicateStore.getState().removePairs([pair.memoryId]);
+    this.memoryManager.removeMemories([pair.memoryId]);
+  };
+
+  /**
+   * Leaves both memories as they are. The decision is remembered, so later scans don't flag the pair again.
+   */
+  keepBoth = (pair: DuplicatePair) => {
+    useDuplicateStore.getState().dismissPairs([pair]);
+    useDuplicateStore.getState().removePairs([pair.memoryId]);
+  };
+
+  /**
+   * Folds the look-alike into the memory it duplicates.
+   */
+  merge = (pair: DuplicatePair) => {
+    useDuplicateStore.getState().removePairs([pair.memoryId]);
+    this.memoryManager.mergeMemories(pair.duplicateOfId, pair.memoryId);
+  };
+
+  keepAll = () => {
+    useDuplicateStore.getState().dismissPairs(useDuplicateStore.getState().pairs);
+    useDuplicateStore.getState().clearPairs();
+  };
+
+  /**
+   * Looks for duplicates across the whole space and queues them for review.
+   * Memories without a perceptual hash yet (e.g. the remote demo images) are hashed first.
+   * Resolves to the number of look-alikes found.
+   */
+  scanSpace = async (): Promise<number> => {
+    if (useDuplicateStore.getState().isScanning) return 0;
+    useDuplicateStore.getState().setIsScanning(true);
+    try {
+      await this.memoryManager.hashMissingImages();
+      const pairs = findDuplicatePairs(useMemoryStore.getState().memories, new Set(useDuplicateStore.getState().dismissedPairKeys));
+      useDuplicateStore.getState().addPairs(pairs);
+      return pairs.length;
+    } finally {
+      useDuplicateStore.getState().setIsScanning(false);
+    }
+  };
+}
@@ -1,9 +1,14 @@
 import { useGalleryStore } from '../stores/galleryStore';
-import { useMemoryStore } from '../stores/memoryStore';
+import { useMemoryStore, getVisibleMemories } from '../stores/memoryStore';
+import { useSearchStore, narrowToMatches } from '../stores/searchStore';
+
+const getListedMemories = () => {
+  return narrowToMatches(getVisibleMemories(useMemoryStore.getState()), useSearchStore.getState().matchedIds);
+};
 
 export class GalleryManager {
   setActiveIndex = (index: number) => {
-    const count = useMemoryStore.getState().memories.length;
+    const count = getListedMemories().length;
     if (count === 0) return;
     const safeIndex = Math.max(0, Math.min(count - 1, index));
     useGalleryStore.getState().setActiveIndex(safeIndex);
@@ -11,7 +16,7 @@ export class GalleryManager {
 
   navigateNext = () => {
     const { activeIndex } = useGalleryStore.getState();
-    const { memories } = useMemoryStore.getState();
+    const memories = getListedMemories();
     if (memories.length === 0) return;
     
     // Gallery doesn't loop by default usually, but we can make it safe
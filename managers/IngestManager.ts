@@ -0,0 +1,143 @@
+import { useIngestStore, isJobActive } from '../stores/ingestStore';
+import { QuotaExceededError } from '../services/ai/rateLimiter';
+
+const MAX_CONCURRENT_JOBS = 3;
+const MAX_ATTEMPTS = 3;
+// Retries wait 1s, 2s, 4s... after a failed attempt
+const RETRY_BASE_DELAY_MS = 1000;
+// Finished jobs leave the tray on their own once nothing is left to watch
+const AUTO_CLEAR_DELAY_MS = 4000;
+
+/**
+ * Runs one attempt of a job. Throwing (or rejecting) counts as a failed attempt.
+ * The signal is aborted when the job is cancelled; a cancelled task must not apply its result.
+ */
+export type IngestTask = (signal: AbortSignal) => Promise<void>;
+
+interface IngestHandlers {
+  // Called once the job is given up: cancelled by the user, or failed after the last attempt
+  onCancel?: () => void;
+  onFail?: (error: unknown) => void;
+}
+
+interface JobEntry {
+  task: IngestTask;
+  handlers: IngestHandlers;
+  controller: AbortController;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Bounded-concurrency queue for memory analysis, with retry/backoff and per-job cancel.
+ * Jobs are keyed by memory ID, so results always land on the memory they were queued for.
+ */
+export class IngestManager {
+  private entries = new Map<string, JobEntry>();
+  // Memory IDs waiting for a free slot, in order
+  private waiting: string[] = [];
+  private running = 0;
+  private autoClearTimer: ReturnType<typeof setTimeout> | null = null;
+
+  enqueue = (memoryId: string, label: string, task: IngestTask, handlers: IngestHandlers = {}) => {
+    // Re-queueing a memory replaces whatever job it had
+    this.abortEntry(memoryId);
+
+    this.entries.set(memoryId, { task, handlers, controller: new AbortController(), retryTimer: null });
+    useIngestStore.getState().upsertJob({ memoryId, label, status: 'queued', attempts: 0 });
+    this.waiting.push(memoryId);
+    this.pump();
+  };
+
+  cancel = (memoryId: string) => {
+    const entry = this.entries.get(memoryId);
+    const job = useIngestStore.getState().jobs.find(j => j.memoryId === memoryId);
+    if (!entry || !job || !isJobActive(job)) return;
+
+    this.abortEntry(memoryId);
+    useIngestStore.getState().updateJob(memoryId, { status: 'cancelled' });
+    entry.handlers.onCancel?.();
+    this.scheduleAutoClear();
+  };
+
+  /**
+   * Drops jobs for memories that no longer exist, without running any of their handlers.
+   */
+  discard = (memoryIds: string[]) => {
+    memoryIds.forEach(this.abortEntry);
+    memoryIds.forEach(id => this.entries.delete(id));
+    useIngestStore.getState().removeJobs(memoryIds);
+  };
+
+  hasActiveJob = (memoryId: string) => {
+    const job = useIngestStore.getState().jobs.find(j => j.memoryId === memoryId);
+    return !!job && isJobActive(job);
+  };
+
+  clearFinished = () => {
+    const finished = useIngestStore.getState().jobs.filter(j => !isJobActive(j)).map(j => j.memoryId);
+    finished.forEach(id => this.entries.delete(id));
+    useIngestStore.getState().removeJobs(finished);
+  };
+
+  private pump = () => {
+    while (this.running < MAX_CONCURRENT_JOBS && this.waiting.length > 0) {
+      const memoryId = this.waiting.shift()!;
+      if (this.entries.has(memoryId)) this.run(memoryId);
+    }
+  };
+
+  private run = async (memoryId: string) => {
+    const entry = this.entries.get(memoryId)!;
+    const { signal } = entry.controller;
+    const attempts = (useIngestStore.getState().jobs.find(j => j.memoryId === memoryId)?.attempts ?? 0) + 1;
+
+    this.running++;
+    useIngestStore.getState().updateJob(memoryId, { status: 'analyzing', attempts });
+    try {
+      await entry.task(signal);
+      if (!signal.aborted) {
+        useIngestStore.getState().updateJob(memoryId, { status: 'done' });
+        this.entries.delete(memoryId);
+      }
+    } catch (e) {
+      if (!signal.aborted) this.handleFailure(memoryId, entry, attempts, e);
+    } finally {
+      this.running--;
+      this.pump();
+      this.scheduleAutoClear();
+    }
+  };
+
+  private handleFailure = (memoryId: string, entry: JobEntry, attempts: number, error: unknown) => {
+    // Retrying can't help once the AI quota is used up; the job stays failed until retried by hand
+    if (attempts >= MAX_ATTEMPTS || error instanceof QuotaExceededError) {
+      console.error(`Analysis of ${memoryId} failed after ${attempts} attempts:`, error);
+      useIngestStore.getState().updateJob(memoryId, { status: 'failed' });
+      entry.handlers.onFail?.(error);
+      return;
+    }
+
+    console.warn(`Analysis of ${memoryId} failed (attempt ${attempts}), retrying:`, error);
+    useIngestStore.getState().updateJob(memoryId, { status: 'queued' });
+    entry.retryTimer = setTimeout(() => {
+      entry.retryTimer = null;
+      this.waiting.push(memoryId);
+      this.pump();
+    }, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+  };
+
+  private abortEntry = (memoryId: string) => {
+    const entry = this.entries.get(memoryId);
+    if (!entry) return;
+    entry.controller.abort();
+    if (entry.retryTimer) clearTimeout(entry.retryTimer);
+    this.waiting = this.waiting.filter(id => id !== memoryId);
+  };
+
+  private scheduleAutoClear = () => {
+    if (this.autoClearTimer) clearTimeout(this.autoClearTimer);
+    const { jobs } = useIngestStore.getState();
+    if (jobs.length === 0 || jobs.some(j => isJobActive(j) || j.status === 'failed')) return;
+    this.autoClearTimer = setTimeout(this.clearFinished, AUTO_CLEAR_DELAY_MS);
+  };
+}
@@ -0,0 +1,55 @@
+import { OrbLayoutMode } from '../types';
+import { useOrbStore } from '../stores/orbStore';
+import { useMemoryStore, getVisibleMemories } from '../stores/memoryStore';
+import { LAYOUT_STRATEGIES } from '../services/layouts';
+
+// Memory edits come in bursts (uploads, analysis results); lay out once they settle
+const REFRESH_DEBOUNCE_MS = 500;
+
+export class LayoutManager {
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped per computation so a slow (semantic) layout can't overwrite a newer one
+  private layoutRun = 0;
+
+  constructor() {
+    useMemoryStore.subscribe((state, prev) => {
+      if (useOrbStore.getState().layoutMode === 'manual') return;
+      if (state.memories !== prev.memories || state.showArchived !== prev.showArchived || state.tagFilter !== prev.tagFilter) {
+        this.scheduleRefresh();
+      }
+    });
+  }
+
+  setLayoutMode = (mode: OrbLayoutMode) => {
+    useOrbStore.getState().setLayoutMode(mode);
+    return this.refreshLayout();
+  };
+
+  /**
+   * Recomputes the active layout for the visible memories. Orbs animate to their new placements.
+   */
+  refreshLayout = async () => {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    const run = ++this.layoutRun;
+    const mode = useOrbStore.getState().layoutMode;
+    const memories = getVisibleMemories(useMemoryStore.getState());
+
+    useOrbStore.getState().setIsLayoutPending(true);
+    try {
+      const placements = await LAYOUT_STRATEGIES[mode].computePlacements(memories);
+      if (run === this.layoutRun) useOrbStore.getState().setPlacements(placements);
+    } catch (e) {
+      console.error(`Failed to compute ${mode} layout:`, e);
+    } finally {
+      if (run === this.layoutRun) useOrbStore.getState().setIsLayoutPending(false);
+    }
+  };
+
+  private scheduleRefresh = () => {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(this.refreshLayout, REFRESH_DEBOUNCE_MS);
+  };
+}
@@ -0,0 +1,16 @@
+import { Locale } from '../services/i18n';
+import { useLocaleStore } from '../stores/localeStore';
+
+export class LocaleManager {
+  constructor() {
+    // Keeps <html lang> in step so fonts, hyphenation and screen readers follow the interface language
+    document.documentElement.lang = useLocaleStore.getState().locale;
+    useLocaleStore.subscribe((state, prev) => {
+      if (state.locale !== prev.locale) document.documentElement.lang = state.locale;
+    });
+  }
+
+  setLocale = (locale: Locale) => {
+    useLocaleStore.getState().setLocale(locale);
+  };
+}
@@ -1,10 +1,36 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Memory } from '../types';
-import { useMemoryStore } from '../stores/memoryStore';
-import { interpretMemory, expandMemory } from '../services/geminiService';
+import { Memory, ConversationTurn, DescriptionSource, MemoryAnalysis, MediaKind, StylePreset, StylePresetId, AnalysisStatus, AnalysisErrorReason } from '../types';
+import { useMemoryStore, getVisibleMemories, isAnalysisActive } from '../stores/memoryStore';
+import { useSearchStore, narrowToMatches } from '../stores/searchStore';
+import { analyzeMemory, analyzeText, expandMemory } from '../services/aiService';
+import { QuotaExceededError } from '../services/ai/rateLimiter';
+import { normalizeTag } from '../services/tagService';
 import { useViewStore } from '../stores/viewStore';
 import { useGalleryStore } from '../stores/galleryStore';
 import { useWorldStore } from '../stores/worldStore';
+import { loadAllMemories, saveMemories, saveBlob, deleteMemories, saveDerivatives, loadDerivatives, saveAudio } from '../services/storageService';
+import { buildSpaceArchive, parseSpaceArchive } from '../services/archiveService';
+import { readImageMetadata, readVideoMetadata } from '../services/metadataService';
+import { processImage } from '../services/imageProcessing';
+import { sampleVideoFrames } from '../services/videoFrames';
+import { renderJournalArt } from '../services/journalArt';
+import { blobToBase64 } from '../services/blobEncoding';
+import { findDuplicateOf } from '../services/duplicateService';
+import { useDuplicateStore } from '../stores/duplicateStore';
+import { useStyleStore } from '../stores/styleStore';
+import { getStylePreset } from '../services/stylePresets';
+import { IngestManager } from './IngestManager';
+
+// How long deleted memories stay restorable from the undo toast
+const UNDO_WINDOW_MS = 6000;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportReport {
+  imported: number;
+  // IDs from the archive that already exist in the space (merge mode keeps the existing memory)
+  collisions: string[];
+}
 
 // Initial Data
 const RAW_MEMORY_DATA = [
@@ -117,126 +143,854 @@ const getFrontAndCenterPos = (rotXDeg: number, rotYDeg: number) => {
   return { theta, phi };
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        const base64 = reader.result.split(',')[1];
-        resolve(base64);
-      }
+const mediaKindOf = (file: Blob): MediaKind | null => {
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type === 'image/gif') return 'animated';
+  if (file.type.startsWith('image/')) return 'image';
+  return null;
+};
+
+// Chinese text runs on without a space; anything else gets one
+const joinDescriptions = (first: string, second: string) => {
+  if (!first) return second;
+  const separator = /[\u4e00-\u9fa5]/.test(first.slice(-1)) ? '' : ' ';
+  return `${first}${separator}${second}`;
+};
+
+const revokeObjectUrls = (memory: Memory) => {
+  [memory.url, memory.thumbnailUrl, memory.previewUrl, ...(memory.voiceNotes ?? []).map(n => n.url)].forEach(url => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  });
+};
+
+// Text older versions wrote into the description in place of a poem, and the state each one stood for
+const LEGACY_PLACEHOLDERS = new Map<string, { analysisStatus: AnalysisStatus; analysisError?: AnalysisErrorReason }>([
+  ['正在唤醒记忆...', { analysisStatus: 'failed', analysisError: 'interrupted' }],
+  ['无法触及的记忆片段...', { analysisStatus: 'failed', analysisError: 'provider' }],
+  ['记忆模糊...', { analysisStatus: 'failed', analysisError: 'provider' }],
+]);
+
+/**
+ * The analysis state of a memory read back from disk or an archive. A queued or running analysis never
+ * finishes after a reload: a memory with words of its own keeps them, one without is marked interrupted
+ * so it can be retried. Records from before the status existed only have their placeholder text to go by.
+ */
+const settleAnalysisState = (memory: Omit<Memory, 'analysisStatus'> & { analysisStatus?: AnalysisStatus; isAnalyzing?: boolean }): Memory => {
+  const { isAnalyzing, ...record } = memory;
+  const legacy = record.analysisStatus ? undefined : LEGACY_PLACEHOLDERS.get(record.description.trim());
+  if (legacy) return { ...record, description: '', ...legacy };
+
+  const status = record.analysisStatus ?? (isAnalyzing ? 'running' : 'done');
+  if (status !== 'pending' && status !== 'running') return { ...record, analysisStatus: status };
+  return record.description
+    ? { ...record, analysisStatus: 'done', analysisError: undefined }
+    : { ...record, analysisStatus: 'failed', analysisError: 'interrupted' };
+};
+
+const createSeedMemories = (): Memory[] => {
+  return RAW_MEMORY_DATA.map((data, index) => {
+    const pos = getFibonacciPos(index, RAW_MEMORY_DATA.length);
+    const simulatedTime = Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000;
+    return {
+      ...data,
+      timestamp: simulatedTime,
+      mediaKind: 'image',
+      theta: pos.theta,
+      phi: pos.phi,
+      driftSpeed: 0.8 + Math.random() * 0.4,
+      analysisStatus: 'done',
     };
-    reader.onerror = error => reject(error);
   });
 };
 
 export class MemoryManager {
+  private hydration: Promise<void> | null = null;
+  private unsubscribePersistence: (() => void) | null = null;
+  private pendingDeletionTimer: ReturnType<typeof setTimeout> | null = null;
+  // Cancels the conversation reply currently streaming, and the memory it is about
+  private replyController: AbortController | null = null;
+  private replyMemoryId: string | null = null;
+  // Analyses that failed or were cancelled, with the style they were asked for (see reanalyzeMemories), for retryAnalysis
+  private unfinishedAnalyses = new Map<string, StylePresetId | null | undefined>();
+
+  constructor(private ingestManager: IngestManager) {}
+
+  /**
+   * Rehydrates the store from IndexedDB. The demo seed is only used for an empty space.
+   * Safe to call repeatedly (e.g. StrictMode double effects) - hydration runs once.
+   */
   loadInitialMemories = () => {
-    const memories: Memory[] = RAW_MEMORY_DATA.map((data, index) => {
-      const pos = getFibonacciPos(index, RAW_MEMORY_DATA.length);
-      const simulatedTime = Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000;
-      return {
-        ...data,
-        timestamp: simulatedTime,
-        theta: pos.theta,
-        phi: pos.phi,
-        driftSpeed: 0.8 + Math.random() * 0.4,
-        isAnalyzing: false,
-      };
-    });
+    if (!this.hydration) {
+      this.hydration = this.hydrate();
+    }
+    return this.hydration;
+  };
+
+  private hydrate = async () => {
+    let memories: Memory[] = [];
+    // Images stored before renditions and hashes existed (or whose processing was interrupted)
+    const unprocessed: { id: string; blob: Blob }[] = [];
+    try {
+      const stored = await loadAllMemories();
+      memories = stored.map(({ memory, blob, derivatives, audio }) => {
+        if (blob && (!derivatives || !memory.perceptualHash)) unprocessed.push({ id: memory.id, blob });
+        return {
+          ...settleAnalysisState(memory),
+          url: blob ? URL.createObjectURL(blob) : memory.url,
+          // Records from before clips were supported are all stills
+          mediaKind: memory.mediaKind ?? 'image',
+          thumbnailUrl: derivatives ? URL.createObjectURL(derivatives.thumbnail) : undefined,
+          previewUrl: derivatives ? URL.createObjectURL(derivatives.preview) : undefined,
+          voiceNotes: memory.voiceNotes?.map(note => ({
+            ...note,
+            url: audio.has(note.id) ? URL.createObjectURL(audio.get(note.id)!) : undefined,
+            // Like analyses, transcriptions interrupted by a reload never finish
+            isTranscribing: false,
+          })),
+        };
+      });
+    } catch (e) {
+      console.error("Failed to load persisted memories:", e);
+    }
+
     useMemoryStore.getState().setMemories(memories);
+    this.startPersistence();
+    unprocessed.forEach(({ id, blob }) => this.generateDerivatives(id, blob));
+
+    if (memories.length === 0) {
+      useMemoryStore.getState().setMemories(createSeedMemories());
+    }
+  };
+
+  // Write-through: every memory object that changed identity in the store is persisted.
+  private startPersistence = () => {
+    this.unsubscribePersistence?.();
+    this.unsubscribePersistence = useMemoryStore.subscribe((state, prev) => {
+      if (state.memories === prev.memories) return;
+
+      const prevById = new Map(prev.memories.map((m) => [m.id, m]));
+      const changed = state.memories.filter((m) => prevById.get(m.id) !== m);
+      const currentIds = new Set(state.memories.map((m) => m.id));
+      // Memories waiting in the undo window stay on disk until the deletion is finalized
+      const pendingIds = new Set((state.pendingDeletion ?? []).map((m) => m.id));
+      const removedIds = prev.memories
+        .filter((m) => !currentIds.has(m.id) && !pendingIds.has(m.id))
+        .map((m) => m.id);
+
+      saveMemories(changed).catch((e) => console.error("Failed to persist memories:", e));
+      deleteMemories(removedIds).catch((e) => console.error("Failed to delete memories:", e));
+    });
+
+    window.addEventListener('pagehide', this.finalizePendingDeletion);
   };
 
   uploadFiles = async (files: FileList | null, currentRotation: { x: number, y: number }) => {
     if (!files || files.length === 0) return;
 
     const centerPos = getFrontAndCenterPos(currentRotation.x, currentRotation.y);
-    const newMemories: Memory[] = [];
 
-    // Pre-create memory objects
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      if (!file.type.startsWith('image/')) continue;
+    // Capture dates decide where the memories land in the date-sorted views
+    const metadataList = await Promise.all(Array.from(files).map(file => {
+      const kind = mediaKindOf(file);
+      if (!kind) return null;
+      return kind === 'video' ? readVideoMetadata(file) : readImageMetadata(file);
+    }));
+
+    // Pre-create memory objects, keeping each one paired with its own file
+    const uploads: { file: File; memory: Memory }[] = [];
+    Array.from(files).forEach((file, i) => {
+      const metadata = metadataList[i];
+      const mediaKind = mediaKindOf(file);
+      if (!mediaKind || !metadata) return;
 
       const id = uuidv4();
       const objectUrl = URL.createObjectURL(file);
+      saveBlob(id, file).catch((e) => console.error("Failed to persist image:", e));
       
       const spread = 0.3;
       const theta = centerPos.theta + (Math.random() - 0.5) * spread;
       let phi = centerPos.phi + (Math.random() - 0.5) * spread;
       phi = Math.max(0.1, Math.min(Math.PI - 0.1, phi));
 
-      newMemories.push({
-        id,
-        url: objectUrl,
-        description: "正在唤醒记忆...",
-        timestamp: Date.now(),
-        theta: theta,
-        phi: phi,
-        scale: 0.9 + Math.random() * 0.3,
-        rotation: Math.random() * 30 - 15,
-        driftSpeed: 10 + Math.random() * 10,
-        isAnalyzing: true,
+      uploads.push({
+        file,
+        memory: {
+          id,
+          url: objectUrl,
+          mediaKind,
+          description: '',
+          timestamp: metadata.capturedAt,
+          theta: theta,
+          phi: phi,
+          scale: 0.9 + Math.random() * 0.3,
+          rotation: Math.random() * 30 - 15,
+          driftSpeed: 10 + Math.random() * 10,
+          analysisStatus: 'pending',
+          metadata,
+        },
       });
-    }
+    });
+    const newMemories = uploads.map(u => u.memory);
+
+    if (newMemories.length === 0) return;
 
     // Update store with new placeholders
-    useMemoryStore.getState().addMemories(newMemories);
+    this.revealNewMemories(newMemories);
 
-    // Update active indices for other views
-    const totalMemories = useMemoryStore.getState().memories.length;
-    // Update Gallery
-    useGalleryStore.getState().setActiveIndex(totalMemories - 1);
-    // Update World
-    useWorldStore.getState().setActiveIndex(totalMemories - 1);
+    // Analysis runs through the ingest queue, keyed by memory ID, on the AI-sized copy or keyframes when they could be made
+    uploads.forEach(({ file, memory }) => {
+      const processed = this.generateDerivatives(memory.id, file);
+      processed.then(() => this.flagDuplicate(memory.id));
+      this.queueAnalysis(memory.id, file.name, async () => {
+        const images = await processed;
+        if (images) return images;
+        if (memory.mediaKind === 'video') throw new Error("Video frames could not be decoded");
+        return [file];
+      });
+    });
+  };
+
+  /**
+   * Creates a memory from a written entry. Its image is abstract art generated from the text,
+   * repainted in the entry's mood and colors once the AI has read it.
+   */
+  createJournalMemory = async (text: string, timestamp: number, currentRotation: { x: number, y: number }) => {
+    const entry = text.trim();
+    if (!entry) return;
 
-    // Process analysis
-    for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        if (!file.type.startsWith('image/')) continue;
-        const memory = newMemories[i]; // Corresponding memory
+    const art = await renderJournalArt(entry);
+    const id = uuidv4();
+    saveBlob(id, art).catch((e) => console.error("Failed to persist image:", e));
 
+    const centerPos = getFrontAndCenterPos(currentRotation.x, currentRotation.y);
+    const memory: Memory = {
+      id,
+      url: URL.createObjectURL(art),
+      mediaKind: 'journal',
+      journalText: entry,
+      description: '',
+      timestamp,
+      theta: centerPos.theta,
+      phi: Math.max(0.1, Math.min(Math.PI - 0.1, centerPos.phi)),
+      scale: 0.9 + Math.random() * 0.3,
+      rotation: Math.random() * 30 - 15,
+      driftSpeed: 10 + Math.random() * 10,
+      analysisStatus: 'pending',
+    };
+    this.revealNewMemories([memory]);
+    this.generateDerivatives(id, art);
+
+    this.queueAnalysis(id, entry.slice(0, 24), async () => entry);
+  };
+
+  /**
+   * Packs the whole space (manifest + original images) into one archive and downloads it.
+   */
+  exportSpace = async () => {
+    await this.loadInitialMemories();
+    const { memories } = useMemoryStore.getState();
+
+    const items = await Promise.all(memories.map(async (memory) => {
+      const audio = new Map<string, Blob>();
+      for (const note of memory.voiceNotes ?? []) {
+        if (!note.url) continue;
         try {
-            const base64 = await fileToBase64(file);
-            const description = await interpretMemory(base64, file.type);
-            useMemoryStore.getState().updateMemory(memory.id, { description, isAnalyzing: false });
+          audio.set(note.id, await fetch(note.url).then(r => r.blob()));
         } catch (e) {
-            console.error(e);
-            useMemoryStore.getState().updateMemory(memory.id, { description: "记忆模糊...", isAnalyzing: false });
+          // The archive leaves out a note without its recording, rather than failing the whole export
+          console.warn("Could not read voice note", note.id, "of memory", memory.id, e);
         }
+      }
+      try {
+        const blob = await fetch(memory.url).then(r => r.blob());
+        return { memory, blob, audio };
+      } catch (e) {
+        // Remote images that cannot be fetched are exported by reference only
+        console.warn("Could not embed image for memory", memory.id, e);
+        return { memory, blob: null, audio };
+      }
+    }));
+
+    const archive = await buildSpaceArchive(items);
+    const stamp = new Date().toISOString().slice(0, 10);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(archive);
+    link.download = `memory-space-${stamp}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  /**
+   * Imports an archive produced by exportSpace.
+   * 'merge' adds the archived memories to the current space, skipping IDs that already exist;
+   * 'replace' discards the current space first.
+   */
+  importSpace = async (file: File, mode: ImportMode): Promise<ImportReport> => {
+    await this.loadInitialMemories();
+    const archived = await parseSpaceArchive(file);
+    const existing = useMemoryStore.getState().memories;
+
+    const knownIds = new Set(mode === 'merge' ? existing.map(m => m.id) : []);
+    const collisions: string[] = [];
+    const incoming: Memory[] = [];
+
+    for (const { memory, blob, audio } of archived) {
+      if (knownIds.has(memory.id)) {
+        collisions.push(memory.id);
+        continue;
+      }
+      knownIds.add(memory.id);
+
+      if (blob) await saveBlob(memory.id, blob);
+      const noteUrls = new Map<string, string>();
+      for (const [noteId, recording] of audio) {
+        await saveAudio(noteId, memory.id, recording);
+        noteUrls.set(noteId, URL.createObjectURL(recording));
+      }
+      incoming.push(settleAnalysisState({
+        ...memory,
+        url: blob ? URL.createObjectURL(blob) : memory.url ?? '',
+        voiceNotes: memory.voiceNotes?.map(note => ({ ...note, url: noteUrls.get(note.id) })),
+      }));
+    }
+
+    if (mode === 'replace') {
+      existing.forEach(revokeObjectUrls);
+      useMemoryStore.getState().setMemories(incoming);
+      this.selectMemory(null);
+      useGalleryStore.getState().setActiveIndex(0);
+      useWorldStore.getState().setActiveIndex(0);
+    } else {
+      useMemoryStore.getState().addMemories(incoming);
+    }
+
+    // Archives carry only the originals; the renditions are made again here
+    archived.forEach(({ memory, blob }) => {
+      if (blob && incoming.some(m => m.id === memory.id)) this.generateDerivatives(memory.id, blob);
+    });
+
+    return { imported: incoming.length, collisions };
+  };
+
+  /**
+   * Removes memories from the space. They can be restored with undoRemove until
+   * the undo window closes, after which their records and images are deleted from disk.
+   */
+  removeMemories = (ids: string[]) => {
+    this.finalizePendingDeletion();
+
+    const removed = useMemoryStore.getState().memories.filter(m => ids.includes(m.id));
+    if (removed.length === 0) return;
+
+    // Deleted memories have nothing left to analyze; undo queues them again
+    this.ingestManager.discard(removed.map(m => m.id));
+
+    // Mark as pending before removing so the persistence layer keeps them on disk
+    useMemoryStore.getState().setPendingDeletion(removed);
+    useMemoryStore.getState().removeMemories(ids);
+    this.clampActiveIndices();
+
+    this.pendingDeletionTimer = setTimeout(this.finalizePendingDeletion, UNDO_WINDOW_MS);
+  };
+
+  undoRemove = () => {
+    const pending = useMemoryStore.getState().pendingDeletion;
+    if (!pending) return;
+
+    if (this.pendingDeletionTimer) {
+      clearTimeout(this.pendingDeletionTimer);
+      this.pendingDeletionTimer = null;
     }
+    useMemoryStore.getState().setPendingDeletion(null);
+    useMemoryStore.getState().addMemories(pending);
+
+    const interrupted = pending.filter(isAnalysisActive).map(m => m.id);
+    if (interrupted.length > 0) this.reanalyzeMemories(interrupted);
+  };
+
+  private finalizePendingDeletion = () => {
+    const pending = useMemoryStore.getState().pendingDeletion;
+    if (this.pendingDeletionTimer) {
+      clearTimeout(this.pendingDeletionTimer);
+      this.pendingDeletionTimer = null;
+    }
+    if (!pending) return;
+
+    useMemoryStore.getState().setPendingDeletion(null);
+    deleteMemories(pending.map(m => m.id)).catch((e) => console.error("Failed to delete memories:", e));
+    pending.forEach(revokeObjectUrls);
+  };
+
+  setArchived = (ids: string[], isArchived: boolean) => {
+    ids.forEach(id => useMemoryStore.getState().updateMemory(id, { isArchived }));
+    this.clampActiveIndices();
+  };
+
+  /**
+   * Queues the AI analysis again for the given memories.
+   * `presetId` switches their style: a preset overrides the space default, null returns them to it,
+   * and undefined keeps each memory's current style.
+   * A failed or cancelled analysis leaves the memory's current description, and its style, untouched.
+   */
+  reanalyzeMemories = (ids: string[], presetId?: StylePresetId | null) => {
+    const memories = useMemoryStore.getState().memories.filter(m => ids.includes(m.id));
+    memories.forEach(memory => {
+      const loadInput = memory.mediaKind === 'journal' && memory.journalText
+        ? async () => memory.journalText!
+        : () => this.loadAnalysisImages(memory);
+      this.queueAnalysis(memory.id, memory.description || memory.journalText?.slice(0, 24) || memory.id, loadInput, presetId);
+    });
+  };
+
+  /**
+   * Queues the analysis again for memories whose last one failed or was cancelled, in the style it was asked for;
+   * `ids` defaults to every memory marked failed.
+   */
+  retryAnalysis = (ids?: string[]) => {
+    const retryable = useMemoryStore.getState().memories.filter(m => ids
+      ? ids.includes(m.id) && (m.analysisStatus === 'failed' || m.analysisStatus === 'cancelled' || this.unfinishedAnalyses.has(m.id))
+      : m.analysisStatus === 'failed');
+    retryable.forEach(m => this.reanalyzeMemories([m.id], this.unfinishedAnalyses.get(m.id)));
+  };
+
+  addTag = (memoryId: string, tag: string) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    const normalized = normalizeTag(tag);
+    if (!memory || !normalized) return;
+    const tags = memory.tags ?? [];
+    if (tags.some(t => t.toLowerCase() === normalized.toLowerCase())) return;
+    useMemoryStore.getState().updateMemory(memoryId, { tags: [...tags, normalized] });
+  };
+
+  removeTag = (memoryId: string, tag: string) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory?.tags) return;
+    useMemoryStore.getState().updateMemory(memoryId, { tags: memory.tags.filter(t => t !== tag) });
+    this.clampActiveIndices();
+  };
+
+  toggleTagFilter = (tag: string) => {
+    const { tagFilter } = useMemoryStore.getState();
+    useMemoryStore.getState().setTagFilter(
+      tagFilter.includes(tag) ? tagFilter.filter(t => t !== tag) : [...tagFilter, tag]
+    );
+    this.clampActiveIndices();
+  };
+
+  clearTagFilter = () => {
+    useMemoryStore.getState().setTagFilter([]);
+    this.clampActiveIndices();
+  };
+
+  /**
+   * Sets the style used for every memory that has no style of its own. Existing descriptions stay as they are.
+   */
+  setDefaultStylePreset = (presetId: StylePresetId) => {
+    useStyleStore.getState().setDefaultPresetId(presetId);
+  };
+
+  setShowArchived = (showArchived: boolean) => {
+    useMemoryStore.getState().setShowArchived(showArchived);
+    this.clampActiveIndices();
+  };
+
+  // Keep the index-based views pointing inside the (possibly shorter) visible list
+  private clampActiveIndices = () => {
+    const count = narrowToMatches(getVisibleMemories(useMemoryStore.getState()), useSearchStore.getState().matchedIds).length;
+    const maxIndex = Math.max(0, count - 1);
+    if (useGalleryStore.getState().activeIndex > maxIndex) useGalleryStore.getState().setActiveIndex(maxIndex);
+    if (useWorldStore.getState().activeIndex > maxIndex) useWorldStore.getState().setActiveIndex(maxIndex);
   };
 
+  /**
+   * Opens a memory in the modal (null closes it). A reply still streaming for the memory being left
+   * is stopped, and waits as a stopped draft for when that memory is opened again.
+   */
   selectMemory = (id: string | null) => {
+    if (this.replyMemoryId !== null && this.replyMemoryId !== id) this.cancelReply();
     useMemoryStore.getState().setSelectedMemoryId(id);
   };
 
-  expandMemoryDescription = async (id: string, currentDesc: string, prompt: string, fileUrl: string) => {
-    if (!prompt.trim()) return;
-    
+  /**
+   * Adds the user's turn to the memory's conversation and streams the AI reply into the reply draft.
+   * Earlier turns are sent along as context. A finished reply becomes a conversation turn; one that
+   * is cancelled or breaks off mid-way is left as a stopped draft for the user to keep or discard.
+   */
+  sendConversationMessage = async (id: string, prompt: string) => {
+    const text = prompt.trim();
+    const memory = useMemoryStore.getState().memories.find(m => m.id === id);
+    if (!text || !memory || this.replyController) return;
+
+    // Sending again is an implicit "no" to a stopped reply that was never kept
+    this.discardPartialReply();
+
+    const history = memory.conversation ?? [];
+    const userTurn: ConversationTurn = { id: uuidv4(), role: 'user', text, timestamp: Date.now() };
+    this.appendConversationTurn(id, userTurn);
+
+    const controller = new AbortController();
+    this.replyController = controller;
+    this.replyMemoryId = id;
     useMemoryStore.getState().setIsProcessing(true);
+    // An empty streaming draft stands for "waiting for the first words" in this memory's thread
+    useMemoryStore.getState().setReplyDraft({ memoryId: id, text: '', status: 'streaming' });
     
+    let reply = '';
     try {
-        const blob = await fetch(fileUrl).then(r => r.blob());
-        const base64 = await fileToBase64(new File([blob], "image"));
+        // Clips are discussed through their first keyframe
+        const [blob] = await this.loadAnalysisImages(memory);
+        const base64 = await blobToBase64(blob);
         
-        const addedText = await expandMemory(
+        const stream = expandMemory(
             base64,
             blob.type,
-            currentDesc,
-            prompt
+            memory.description,
+            text,
+            history,
+            this.styleOf(id),
+            controller.signal
         );
+        for await (const chunk of stream) {
+            reply += chunk;
+            useMemoryStore.getState().setReplyDraft({ memoryId: id, text: reply, status: 'streaming' });
+        }
 
-        if (addedText) {
-            const separator = /[\u4e00-\u9fa5]/.test(currentDesc.slice(-1)) ? '' : ' ';
-            const newDescription = `${currentDesc}${separator}${addedText}`;
-            useMemoryStore.getState().updateMemory(id, { description: newDescription });
+        useMemoryStore.getState().setReplyDraft(null);
+        if (reply.trim()) {
+            this.appendConversationTurn(id, { id: uuidv4(), role: 'assistant', text: reply.trim(), timestamp: Date.now() });
         }
     } catch (err) {
-        console.error("Error expanding memory:", err);
+        if (!controller.signal.aborted) console.error("Error expanding memory:", err);
+        useMemoryStore.getState().setReplyDraft(reply.trim() ? { memoryId: id, text: reply, status: 'stopped' } : null);
     } finally {
+        this.replyController = null;
+        this.replyMemoryId = null;
         useMemoryStore.getState().setIsProcessing(false);
     }
-  }
+  };
+
+  /**
+   * Stops the reply being streamed, cancelling its request. Whatever arrived so far is kept as a stopped draft.
+   */
+  cancelReply = () => {
+    this.replyController?.abort();
+  };
+
+  /**
+   * Adds a stopped reply to the conversation as it is.
+   */
+  keepPartialReply = () => {
+    const draft = useMemoryStore.getState().replyDraft;
+    if (!draft || draft.status !== 'stopped') return;
+
+    useMemoryStore.getState().setReplyDraft(null);
+    this.appendConversationTurn(draft.memoryId, { id: uuidv4(), role: 'assistant', text: draft.text.trim(), timestamp: Date.now() });
+  };
+
+  discardPartialReply = () => {
+    if (useMemoryStore.getState().replyDraft?.status === 'stopped') {
+      useMemoryStore.getState().setReplyDraft(null);
+    }
+  };
+
+  /**
+   * Appends a conversation turn (normally an AI reply) to the memory's description.
+   */
+  promoteTurnToDescription = (memoryId: string, turnId: string) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    const turn = memory?.conversation?.find(t => t.id === turnId);
+    if (!memory || !turn) return;
+
+    this.setDescription(memoryId, joinDescriptions(memory.description, turn.text), 'expand');
+  };
+
+  /**
+   * Folds a duplicate into the memory it copies. The kept memory takes the earlier of the two
+   * timestamps, both descriptions, the union of tags and conversation turns, and the duplicate's voice notes.
+   * The duplicate is then removed like any deletion, so the undo toast can bring it back.
+   */
+  mergeMemories = async (keepId: string, duplicateId: string) => {
+    const movingNotes = useMemoryStore.getState().memories.find(m => m.id === duplicateId)?.voiceNotes ?? [];
+    // The recordings move to the kept memory on disk too, or deleting the duplicate would take them along
+    try {
+      await Promise.all(movingNotes.map(async (note) => {
+        if (!note.url) return;
+        const recording = await fetch(note.url).then(r => r.blob());
+        await saveAudio(note.id, keepId, recording);
+      }));
+    } catch (e) {
+      console.error("Failed to move voice notes:", e);
+      return;
+    }
+
+    // Read after the move, so edits made meanwhile are merged too
+    const { memories } = useMemoryStore.getState();
+    const keep = memories.find(m => m.id === keepId);
+    const duplicate = memories.find(m => m.id === duplicateId);
+    if (!keep || !duplicate) return;
+
+    const isDuplicateEarlier = duplicate.timestamp < keep.timestamp;
+    const tags = [...(keep.tags ?? [])];
+    (duplicate.tags ?? []).forEach(tag => {
+      if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+    });
+    const conversation = [...(keep.conversation ?? []), ...(duplicate.conversation ?? [])]
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    // Latest copies of the moved notes, e.g. with a transcript that finished meanwhile
+    const movedNotes = (duplicate.voiceNotes ?? []).filter(n => movingNotes.some(moved => moved.id === n.id));
+    const voiceNotes = [...(keep.voiceNotes ?? []), ...movedNotes];
+
+    const extra: Partial<Memory> = {
+      timestamp: Math.min(keep.timestamp, duplicate.timestamp),
+      // The capture details belong with the timestamp that is kept
+      metadata: isDuplicateEarlier ? duplicate.metadata ?? keep.metadata : keep.metadata,
+      tags: keep.tags || duplicate.tags ? tags : undefined,
+      conversation: conversation.length > 0 ? conversation : undefined,
+      voiceNotes: voiceNotes.length > 0 ? voiceNotes : undefined,
+    };
+
+    // A placeholder or repeated description adds nothing to the kept one
+    const hasOwnText = !!duplicate.description && !keep.description.includes(duplicate.description);
+    if (hasOwnText) {
+      const [first, second] = isDuplicateEarlier ? [duplicate, keep] : [keep, duplicate];
+      this.setDescription(keepId, joinDescriptions(first.description, second.description), 'merge', extra);
+    } else {
+      useMemoryStore.getState().updateMemory(keepId, extra);
+    }
+
+    // The notes (and their object URLs) now belong to the kept memory; deleting the duplicate mustn't revoke them
+    if (movedNotes.length > 0) useMemoryStore.getState().updateMemory(duplicateId, { voiceNotes: undefined });
+    this.removeMemories([duplicateId]);
+  };
+
+  /**
+   * Generates renditions and a perceptual hash for memories that have no hash yet,
+   * fetching each image once. Images that cannot be fetched or decoded stay without one.
+   */
+  hashMissingImages = async () => {
+    const missing = useMemoryStore.getState().memories.filter(m => !m.perceptualHash);
+    await Promise.all(missing.map(async (memory) => {
+      try {
+        const image = await fetch(memory.url).then(r => r.blob());
+        await this.generateDerivatives(memory.id, image);
+      } catch (e) {
+        console.warn("Could not load image for memory", memory.id, e);
+      }
+    }));
+  };
+
+  /**
+   * Replaces the description with hand-written text.
+   */
+  editDescription = (memoryId: string, text: string) => {
+    const trimmed = text.trim();
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory || !trimmed || trimmed === memory.description) return;
+    this.setDescription(memoryId, trimmed, 'manual');
+  };
+
+  /**
+   * Restores an earlier description. The revert itself is recorded as a new version.
+   */
+  revertDescription = (memoryId: string, versionId: string) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    const version = memory?.descriptionHistory?.find(v => v.id === versionId);
+    if (!memory || !version || version.text === memory.description) return;
+    this.setDescription(memoryId, version.text, 'revert');
+  };
+
+  // Single entry point for description changes, so every change lands in the history
+  private setDescription = (
+    memoryId: string,
+    text: string,
+    source: DescriptionSource,
+    extra: Partial<Memory> = {},
+    stylePresetId?: StylePresetId,
+  ) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory) return;
+
+    const history = [...(memory.descriptionHistory ?? [])];
+    // Keep the pre-history description (memories analyzed here start without one) as the baseline version
+    if (history.length === 0 && memory.description) {
+      history.push({ id: uuidv4(), text: memory.description, source: 'initial', timestamp: memory.timestamp });
+    }
+    history.push({ id: uuidv4(), text, source, timestamp: Date.now(), ...(stylePresetId ? { stylePresetId } : {}) });
+
+    useMemoryStore.getState().updateMemory(memoryId, { ...extra, description: text, descriptionHistory: history });
+  };
+
+  deleteConversationTurn = (memoryId: string, turnId: string) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory?.conversation) return;
+    useMemoryStore.getState().updateMemory(memoryId, {
+      conversation: memory.conversation.filter(t => t.id !== turnId),
+    });
+  };
+
+  // New memories have no tags yet, so an active tag filter or search would hide them
+  private revealNewMemories = (newMemories: Memory[]) => {
+    useMemoryStore.getState().addMemories(newMemories);
+
+    useMemoryStore.getState().setTagFilter([]);
+    useSearchStore.getState().setQuery('');
+    useSearchStore.getState().setMatchedIds(null);
+
+    // Point the date-sorted views at the first new memory, wherever its date put it
+    const sorted = [...getVisibleMemories(useMemoryStore.getState())].sort((a, b) => a.timestamp - b.timestamp);
+    const focusIndex = sorted.findIndex(m => m.id === newMemories[0].id);
+    // Update Gallery
+    useGalleryStore.getState().setActiveIndex(focusIndex);
+    // Update World
+    useWorldStore.getState().setActiveIndex(focusIndex);
+  };
+
+  /**
+   * Runs a memory's analysis through the ingest queue and tracks it in `analysisStatus`.
+   * `loadInput` yields the images to analyze, or a journal entry's text. The style is resolved
+   * when the job runs, so a retry picks up a style changed in the meantime. `stylePresetId` (see reanalyzeMemories)
+   * is only written to the memory together with the analysis made in it.
+   * A failed or cancelled analysis leaves the description as it was. A memory that already had one stays 'done':
+   * only its ingest job shows the failure, with a retry in the requested style.
+   */
+  private queueAnalysis = (memoryId: string, label: string, loadInput: () => Promise<Blob[] | string>, stylePresetId?: StylePresetId | null) => {
+    const setStatus = (analysisStatus: AnalysisStatus, analysisError?: AnalysisErrorReason) => {
+      useMemoryStore.getState().updateMemory(memoryId, { analysisStatus, analysisError });
+    };
+    // The step the last attempt got to decides what a failure is put down to
+    let failingStep: AnalysisErrorReason = 'media';
+    const hasDescription = !!useMemoryStore.getState().memories.find(m => m.id === memoryId)?.description;
+    const giveUp = (analysisStatus: AnalysisStatus, analysisError?: AnalysisErrorReason) => {
+      this.unfinishedAnalyses.set(memoryId, stylePresetId);
+      if (hasDescription) setStatus('done');
+      else setStatus(analysisStatus, analysisError);
+    };
+
+    this.unfinishedAnalyses.delete(memoryId);
+    setStatus('pending');
+    this.ingestManager.enqueue(memoryId, label, async (signal) => {
+      setStatus('running');
+      failingStep = 'media';
+      const input = await loadInput();
+      if (signal.aborted) return;
+
+      failingStep = 'provider';
+      const style = stylePresetId === undefined
+        ? this.styleOf(memoryId)
+        : getStylePreset(stylePresetId ?? useStyleStore.getState().defaultPresetId);
+      const analysis = typeof input === 'string' ? await analyzeText(input, style, signal) : await this.analyzeImages(input, style, signal);
+      if (signal.aborted) return;
+      if (!analysis) throw new Error("No valid analysis returned");
+      this.applyAnalysis(memoryId, analysis, style.id, stylePresetId === undefined ? {} : { stylePresetId: stylePresetId ?? undefined });
+    }, {
+      onFail: (error) => giveUp('failed', error instanceof QuotaExceededError ? 'quota' : failingStep),
+      onCancel: () => giveUp('cancelled'),
+    });
+  };
+
+  private styleOf = (memoryId: string): StylePreset => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    return getStylePreset(memory?.stylePresetId ?? useStyleStore.getState().defaultPresetId);
+  };
+
+  private analyzeImages = async (images: Blob[], style: StylePreset, signal: AbortSignal) => {
+    const encoded = await Promise.all(
+      images.map(async (image) => ({ base64Data: await blobToBase64(image), mimeType: image.type }))
+    );
+    if (signal.aborted) return null;
+    return analyzeMemory(encoded, style, signal);
+  };
+
+  /**
+   * Makes the thumbnail, preview and AI-sized copy of a memory's image (for clips: of a poster frame,
+   * plus keyframes) and points the views at them. Resolves to the images for the AI, or null when
+   * the media could not be processed (the views and the AI then keep using the original).
+   */
+  private generateDerivatives = async (memoryId: string, media: Blob): Promise<Blob[] | null> => {
+    try {
+      const clip = media.type.startsWith('video/') ? await sampleVideoFrames(media) : null;
+      const { thumbnail, preview, analysisImage, keyframes, perceptualHash } = await processImage(clip?.poster ?? media);
+      const frames = clip?.keyframes ?? keyframes;
+      const analysisImages = frames.length > 0 ? frames : [analysisImage];
+      // The memory may have been deleted while its media was processed
+      const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+      if (!memory) return analysisImages;
+
+      saveDerivatives({ id: memoryId, thumbnail, preview, analysisImage, keyframes: frames.length > 0 ? frames : undefined })
+        .catch((e) => console.error("Failed to persist image renditions:", e));
+      [memory.thumbnailUrl, memory.previewUrl].forEach(url => url && URL.revokeObjectURL(url));
+      useMemoryStore.getState().updateMemory(memoryId, {
+        thumbnailUrl: URL.createObjectURL(thumbnail),
+        previewUrl: URL.createObjectURL(preview),
+        perceptualHash,
+        // Animated WebP and PNG are only recognizable once decoded
+        ...(memory.mediaKind === 'image' && keyframes.length > 1 ? { mediaKind: 'animated' as const } : {}),
+      });
+      return analysisImages;
+    } catch (e) {
+      console.warn("Could not process media for memory", memoryId, e);
+      return null;
+    }
+  };
+
+  // A fresh upload that looks like a memory already in the space waits in the duplicate review
+  private flagDuplicate = (memoryId: string) => {
+    const { memories } = useMemoryStore.getState();
+    const memory = memories.find(m => m.id === memoryId);
+    const pair = memory && findDuplicateOf(memory, memories, new Set(useDuplicateStore.getState().dismissedPairKeys));
+    if (pair) useDuplicateStore.getState().addPairs([pair]);
+  };
+
+  // Prefers the stored AI-sized copy or keyframes; remote and unprocessed media are fetched and processed first
+  private loadAnalysisImages = async (memory: Memory): Promise<Blob[]> => {
+    const derivatives = await loadDerivatives(memory.id).catch(() => null);
+    if (derivatives) return derivatives.keyframes ?? [derivatives.analysisImage];
+
+    const media = await fetch(memory.url).then(r => r.blob());
+    const images = await this.generateDerivatives(memory.id, media);
+    if (images) return images;
+    if (memory.mediaKind === 'video') throw new Error("Video frames could not be decoded");
+    return [media];
+  };
+
+  // Stores the analysis and its poem as the new description. Tags the user already has are kept as they are.
+  // `extra` holds further fields to write with the result, e.g. the style override it was made in
+  private applyAnalysis = (memoryId: string, analysis: MemoryAnalysis, stylePresetId: StylePresetId, extra: Partial<Memory> = {}) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    this.setDescription(memoryId, analysis.poem, 'interpret', {
+      ...extra,
+      analysisStatus: 'done',
+      analysisError: undefined,
+      analysis,
+      tags: memory?.tags ?? analysis.tags,
+    }, stylePresetId);
+    if (memory?.mediaKind === 'journal' && memory.journalText) {
+      this.repaintJournal(memoryId, memory.journalText, analysis);
+    }
+  };
+
+  // Swaps a journal memory's art for a rendering in its analyzed mood and colors
+  private repaintJournal = async (memoryId: string, text: string, analysis: MemoryAnalysis) => {
+    try {
+      const art = await renderJournalArt(text, analysis);
+      const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+      if (!memory) return;
+      await saveBlob(memoryId, art);
+      if (memory.url.startsWith('blob:')) URL.revokeObjectURL(memory.url);
+      useMemoryStore.getState().updateMemory(memoryId, { url: URL.createObjectURL(art) });
+      await this.generateDerivatives(memoryId, art);
+    } catch (e) {
+      console.warn("Could not repaint journal art for memory", memoryId, e);
+    }
+  };
+
+  // Reads the latest conversation from the store so concurrent appends don't drop turns
+  private appendConversationTurn = (memoryId: string, turn: ConversationTurn) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory) return;
+    useMemoryStore.getState().updateMemory(memoryId, {
+      conversation: [...(memory.conversation ?? []), turn],
+    });
+  };
 }
@@ -1,9 +1,34 @@
+import { MotionValue } from 'framer-motion';
 import { useOrbStore } from '../stores/orbStore';
+import { GravitySimulation, getLocalGravity } from '../services/gravitySimulation';
+
+// Live 3D position of a rendered orb, owned by MemoryOrb and driven here in gravity mode
+export interface OrbBody {
+  x: MotionValue<number>;
+  y: MotionValue<number>;
+  z: MotionValue<number>;
+  radius: number;
+}
 
 export class OrbManager {
+  private bodies = new Map<string, OrbBody>();
+  private simulation = new GravitySimulation();
+  private frameId: number | null = null;
+  private lastFrameTime = 0;
+
   toggleGravityMode = () => {
     const current = useOrbStore.getState().isGravityMode;
-    useOrbStore.getState().setIsGravityMode(!current);
+    this.setGravityMode(!current);
+  };
+
+  setGravityMode = (enabled: boolean) => {
+    useOrbStore.getState().setIsGravityMode(enabled);
+
+    if (enabled) {
+      this.startSimulation();
+    } else {
+      this.stopSimulation();
+    }
   };
 
   setSphereRadius = (radius: number) => {
@@ -17,4 +42,59 @@ export class OrbManager {
   getCameraRotation = () => {
     return useOrbStore.getState().cameraRotation;
   };
+
+  /**
+   * Registers an orb so the gravity simulation can move it.
+   * Returns an unregister function for the component's effect cleanup.
+   */
+  registerOrbBody = (id: string, body: OrbBody) => {
+    this.bodies.set(id, body);
+    return () => {
+      if (this.bodies.get(id) === body) {
+        this.bodies.delete(id);
+        this.simulation.removeBody(id);
+      }
+    };
+  };
+
+  private startSimulation = () => {
+    this.stopSimulation();
+    this.lastFrameTime = performance.now();
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+
+  private stopSimulation = () => {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    // Next time gravity is enabled, orbs start falling from wherever they are then
+    this.simulation.clear();
+  };
+
+  private tick = (now: number) => {
+    // Clamp the step so a backgrounded tab doesn't fling orbs across the sphere
+    const dt = Math.min(1 / 30, (now - this.lastFrameTime) / 1000);
+    this.lastFrameTime = now;
+
+    const { sphereRadius, cameraRotation } = useOrbStore.getState();
+
+    this.bodies.forEach((body, id) => {
+      if (!this.simulation.hasBody(id)) {
+        this.simulation.addBody(id, { x: body.x.get(), y: body.y.get(), z: body.z.get() }, body.radius);
+      }
+    });
+
+    this.simulation.step(dt, getLocalGravity(cameraRotation.x, cameraRotation.y), sphereRadius);
+
+    this.bodies.forEach((body, id) => {
+      const pos = this.simulation.getPosition(id);
+      if (!pos) return;
+      body.x.set(pos.x);
+      body.y.set(pos.y);
+      body.z.set(pos.z);
+    });
+
+    this.frameId = requestAnimationFrame(this.tick);
+  };
 }
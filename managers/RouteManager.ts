@@ -0,0 +1,145 @@
+import { useViewStore } from '../stores/viewStore';
+import { useMemoryStore } from '../stores/memoryStore';
+import { useGalleryStore } from '../stores/galleryStore';
+import { useWorldStore } from '../stores/worldStore';
+import { useOrbStore } from '../stores/orbStore';
+import { AppRoute, buildRoute, parseRoute } from '../services/urlRoute';
+import { MemoryManager } from './MemoryManager';
+import { ViewManager } from './ViewManager';
+import { GalleryManager } from './GalleryManager';
+import { WorldManager } from './WorldManager';
+import { OrbManager } from './OrbManager';
+
+// Spinning the sphere or auto-drifting changes the route many times a second; the address bar follows at this pace
+const REPLACE_DELAY_MS = 300;
+
+const readCurrentRoute = (): AppRoute => {
+  const { viewMode } = useViewStore.getState();
+  return {
+    viewMode,
+    memoryId: useMemoryStore.getState().selectedMemoryId,
+    activeIndex: viewMode === 'gallery' ? useGalleryStore.getState().activeIndex
+      : viewMode === 'world' ? useWorldStore.getState().activeIndex
+      : null,
+    cameraRotation: viewMode === 'orb' ? useOrbStore.getState().cameraRotation : null,
+  };
+};
+
+/**
+ * Keeps the URL hash in step with the view, the open memory and where the view is looking, so a link
+ * reopens the same place. Switching view or opening / closing a memory adds a history entry (back and
+ * forward step through them); moving within a view only updates the current one.
+ */
+export class RouteManager {
+  private isStarted = false;
+  // Set while a route is being applied to the stores, so applying it doesn't write it back
+  private isApplying = false;
+  private replaceTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingReplace: string | null = null;
+  private lastRoute: AppRoute | null = null;
+
+  constructor(
+    private memoryManager: MemoryManager,
+    private viewManager: ViewManager,
+    private galleryManager: GalleryManager,
+    private worldManager: WorldManager,
+    private orbManager: OrbManager,
+  ) {}
+
+  /**
+   * Applies the route the page was opened with, then starts syncing. The view switches straight away;
+   * indices and the open memory wait for the stored memories, since they refer to them.
+   * Safe to call repeatedly (e.g. StrictMode double effects).
+   */
+  restoreRoute = async () => {
+    if (this.isStarted) return;
+    this.isStarted = true;
+
+    const initial = parseRoute(window.location.hash);
+    if (initial) this.applying(() => this.viewManager.setViewMode(initial.viewMode));
+
+    await this.memoryManager.loadInitialMemories();
+    if (initial) this.applyRoute(initial);
+
+    this.lastRoute = readCurrentRoute();
+    history.replaceState(history.state, '', buildRoute(this.lastRoute));
+
+    useViewStore.subscribe(this.syncRoute);
+    useMemoryStore.subscribe((state, prev) => {
+      if (state.selectedMemoryId !== prev.selectedMemoryId) this.syncRoute();
+    });
+    useGalleryStore.subscribe(this.syncRoute);
+    useWorldStore.subscribe((state, prev) => {
+      if (state.activeIndex !== prev.activeIndex) this.syncRoute();
+    });
+    useOrbStore.subscribe((state, prev) => {
+      if (state.cameraRotation !== prev.cameraRotation) this.syncRoute();
+    });
+    window.addEventListener('popstate', this.handlePopState);
+  };
+
+  private applying = (apply: () => void) => {
+    this.isApplying = true;
+    try {
+      apply();
+    } finally {
+      this.isApplying = false;
+    }
+  };
+
+  private applyRoute = (route: AppRoute) => {
+    this.applying(() => {
+      this.viewManager.setViewMode(route.viewMode);
+      if (route.activeIndex !== null) {
+        if (route.viewMode === 'gallery') this.galleryManager.setActiveIndex(route.activeIndex);
+        if (route.viewMode === 'world') this.worldManager.setActiveIndex(route.activeIndex);
+      }
+      if (route.cameraRotation) this.orbManager.updateCameraRotation(route.cameraRotation.x, route.cameraRotation.y);
+      // A link to a memory that was deleted (or lives in another browser) opens the space without it
+      const exists = route.memoryId !== null && useMemoryStore.getState().memories.some(m => m.id === route.memoryId);
+      this.memoryManager.selectMemory(exists ? route.memoryId : null);
+    });
+  };
+
+  private handlePopState = () => {
+    this.cancelReplace();
+    const route = parseRoute(window.location.hash);
+    if (route) this.applyRoute(route);
+    this.lastRoute = readCurrentRoute();
+    const url = buildRoute(this.lastRoute);
+    // The entry may name a memory or index that no longer exists; show what was actually restored
+    if (url !== window.location.hash) history.replaceState(history.state, '', url);
+  };
+
+  private syncRoute = () => {
+    if (this.isApplying || !this.lastRoute) return;
+    const route = readCurrentRoute();
+    const url = buildRoute(route);
+    const isNewEntry = route.viewMode !== this.lastRoute.viewMode || route.memoryId !== this.lastRoute.memoryId;
+    this.lastRoute = route;
+
+    if (isNewEntry) {
+      // The entry being left keeps its final position before the new one is pushed
+      this.flushReplace();
+      if (url !== window.location.hash) history.pushState(null, '', url);
+      return;
+    }
+
+    this.pendingReplace = url;
+    if (!this.replaceTimer) {
+      this.replaceTimer = setTimeout(this.flushReplace, REPLACE_DELAY_MS);
+    }
+  };
+
+  private flushReplace = () => {
+    const url = this.pendingReplace;
+    this.cancelReplace();
+    if (url !== null && url !== window.location.hash) history.replaceState(history.state, '', url);
+  };
+
+  private cancelReplace = () => {
+    if (this.replaceTimer) clearTimeout(this.replaceTimer);
+    this.replaceTimer = null;
+    this.pendingReplace = null;
+  };
+}
@@ -0,0 +1,76 @@
+import { useMemoryStore } from '../stores/memoryStore';
+import { useSearchStore } from '../stores/searchStore';
+import { useGalleryStore } from '../stores/galleryStore';
+import { useWorldStore } from '../stores/worldStore';
+import { embedTexts } from '../services/aiService';
+import { getMemoryEmbeddings } from '../services/embeddingCache';
+import { matchesKeywords, findSemanticMatches } from '../services/searchService';
+
+const SEMANTIC_DEBOUNCE_MS = 300;
+
+export class SearchManager {
+  private semanticTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped per query so a slow semantic search can't overwrite a newer one
+  private searchRun = 0;
+
+  /**
+   * Keyword matches are applied immediately; semantic matches are added after a short pause in typing.
+   */
+  setQuery = (query: string) => {
+    useSearchStore.getState().setQuery(query);
+    if (this.semanticTimer) clearTimeout(this.semanticTimer);
+    this.searchRun++;
+
+    const trimmed = query.trim();
+    if (!trimmed) {
+      useSearchStore.getState().setMatchedIds(null);
+      useSearchStore.getState().setIsSemanticPending(false);
+      this.resetListIndices();
+      return;
+    }
+
+    this.setResults(this.getKeywordMatches(trimmed));
+    useSearchStore.getState().setIsSemanticPending(true);
+    const run = this.searchRun;
+    this.semanticTimer = setTimeout(() => this.runSemanticSearch(trimmed, run), SEMANTIC_DEBOUNCE_MS);
+  };
+
+  clearSearch = () => {
+    this.setQuery('');
+  };
+
+  private getKeywordMatches = (query: string) => {
+    return useMemoryStore.getState().memories.filter(m => matchesKeywords(m, query)).map(m => m.id);
+  };
+
+  private runSemanticSearch = async (query: string, run: number) => {
+    try {
+      const vectors = await getMemoryEmbeddings(useMemoryStore.getState().memories);
+      const queryVectors = await embedTexts([query]);
+      // The query may also have been cleared from outside (e.g. by an upload) in the meantime
+      const isCurrent = run === this.searchRun && useSearchStore.getState().query.trim() === query;
+      if (!isCurrent || !queryVectors?.[0]) return;
+
+      // Keyword matches stay on top; the query may have matched new memories since they were computed
+      const keywordIds = this.getKeywordMatches(query);
+      const semanticIds = findSemanticMatches(queryVectors[0], vectors).filter(id => !keywordIds.includes(id));
+      this.setResults([...keywordIds, ...semanticIds]);
+    } catch (e) {
+      // The keyword matches already shown stay as the results
+      console.error("Semantic search failed:", e);
+    } finally {
+      if (run === this.searchRun) useSearchStore.getState().setIsSemanticPending(false);
+    }
+  };
+
+  private setResults = (ids: string[]) => {
+    useSearchStore.getState().setMatchedIds(ids);
+    this.resetListIndices();
+  };
+
+  // The gallery and world lists change length with every result set; start them at the first result
+  private resetListIndices = () => {
+    useGalleryStore.getState().setActiveIndex(0);
+    useWorldStore.getState().setActiveIndex(0);
+  };
+}
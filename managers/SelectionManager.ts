@@ -0,0 +1,58 @@
+import { StylePresetId } from '../types';
+import { useMemoryStore } from '../stores/memoryStore';
+import { MemoryManager } from './MemoryManager';
+
+export class SelectionManager {
+  constructor(private memoryManager: MemoryManager) {}
+
+  toggleSelecting = () => {
+    this.setSelecting(!useMemoryStore.getState().isSelecting);
+  };
+
+  setSelecting = (isSelecting: boolean) => {
+    useMemoryStore.getState().setIsSelecting(isSelecting);
+    if (!isSelecting) this.clearSelection();
+  };
+
+  toggleSelection = (id: string) => {
+    const { selectedIds } = useMemoryStore.getState();
+    const next = selectedIds.includes(id)
+      ? selectedIds.filter(x => x !== id)
+      : [...selectedIds, id];
+    useMemoryStore.getState().setSelectedIds(next);
+    if (next.length > 0) useMemoryStore.getState().setIsSelecting(true);
+  };
+
+  /**
+   * Shared click handling for the views: in selection mode (or with a modifier key)
+   * a click toggles selection, otherwise it runs the view's normal action.
+   * Returns true when the click was consumed by selection.
+   */
+  handleItemClick = (id: string, event?: { shiftKey: boolean; metaKey: boolean; ctrlKey: boolean }) => {
+    const isModified = !!event && (event.shiftKey || event.metaKey || event.ctrlKey);
+    if (!useMemoryStore.getState().isSelecting && !isModified) return false;
+    this.toggleSelection(id);
+    return true;
+  };
+
+  clearSelection = () => {
+    useMemoryStore.getState().setSelectedIds([]);
+  };
+
+  deleteSelected = () => {
+    this.memoryManager.removeMemories(useMemoryStore.getState().selectedIds);
+    this.setSelecting(false);
+  };
+
+  archiveSelected = (isArchived: boolean) => {
+    this.memoryManager.setArchived(useMemoryStore.getState().selectedIds, isArchived);
+    this.setSelecting(false);
+  };
+
+  // See MemoryManager.reanalyzeMemories for what `presetId` does
+  reanalyzeSelected = (presetId?: StylePresetId | null) => {
+    const ids = useMemoryStore.getState().selectedIds;
+    this.setSelecting(false);
+    return this.memoryManager.reanalyzeMemories(ids, presetId);
+  };
+}
@@ -0,0 +1,31 @@
+import { useTimelineStore, TimelineZoom } from '../stores/timelineStore';
+
+const ZOOM_LEVELS: TimelineZoom[] = ['year', 'month', 'day'];
+
+export class TimelineManager {
+  setZoom = (zoom: TimelineZoom) => {
+    useTimelineStore.getState().setZoom(zoom);
+  };
+
+  /**
+   * Zooms one level finer. When a time is given the axis centers on it (e.g. a clicked year).
+   */
+  zoomIn = (time?: number) => {
+    const { zoom } = useTimelineStore.getState();
+    const index = ZOOM_LEVELS.indexOf(zoom);
+    if (index >= ZOOM_LEVELS.length - 1) return;
+    if (time !== undefined) this.setFocusTime(time);
+    this.setZoom(ZOOM_LEVELS[index + 1]);
+  };
+
+  zoomOut = () => {
+    const { zoom } = useTimelineStore.getState();
+    const index = ZOOM_LEVELS.indexOf(zoom);
+    if (index <= 0) return;
+    this.setZoom(ZOOM_LEVELS[index - 1]);
+  };
+
+  setFocusTime = (time: number | null) => {
+    useTimelineStore.getState().setFocusTime(time);
+  };
+}
@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import { VoiceNote } from '../types';
+import { useMemoryStore } from '../stores/memoryStore';
+import { useVoiceNoteStore } from '../stores/voiceNoteStore';
+import { transcribeAudio } from '../services/aiService';
+import { summarizeAudio, AudioSummary } from '../services/audioWaveform';
+import { blobToBase64 } from '../services/blobEncoding';
+import { saveAudio, deleteAudio } from '../services/storageService';
+import { MemoryManager } from './MemoryManager';
+
+export class VoiceNoteManager {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  // Set by cancelRecording so the stop handler throws the clip away
+  private isDiscarding = false;
+  // Stands for the start waiting on microphone permission; cancelRecording clears it so the stream is dropped on arrival
+  private pendingStart: symbol | null = null;
+
+  constructor(private memoryManager: MemoryManager) {}
+
+  /**
+   * Starts recording a voice note for the memory. Only one recording runs at a time.
+   */
+  startRecording = async (memoryId: string) => {
+    if (this.recorder || this.pendingStart) return;
+    useVoiceNoteStore.getState().setRecordingError(null);
+
+    const token = Symbol('start');
+    this.pendingStart = token;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      if (this.pendingStart !== token) return;
+      this.pendingStart = null;
+      console.error("Microphone unavailable:", e);
+      useVoiceNoteStore.getState().setRecordingError('voice.microphoneUnavailable');
+      return;
+    }
+
+    // Cancelled (e.g. the modal closed) while the permission prompt was up
+    if (this.pendingStart !== token) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.pendingStart = null;
+
+    const recorder = new MediaRecorder(stream);
+    this.recorder = recorder;
+    this.chunks = [];
+    this.isDiscarding = false;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      const clip = new Blob(this.chunks, { type: recorder.mimeType || 'audio/webm' });
+      this.recorder = null;
+      this.chunks = [];
+      useVoiceNoteStore.getState().setRecording(null);
+      if (!this.isDiscarding && clip.size > 0) this.addVoiceNote(memoryId, clip);
+    };
+
+    recorder.start();
+    useVoiceNoteStore.getState().setRecording(memoryId);
+  };
+
+  stopRecording = () => {
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+  };
+
+  // E.g. when the modal closes mid-recording
+  cancelRecording = () => {
+    this.pendingStart = null;
+    this.isDiscarding = true;
+    this.stopRecording();
+  };
+
+  /**
+   * Attaches a recording to the memory and transcribes it.
+   */
+  addVoiceNote = async (memoryId: string, clip: Blob) => {
+    let summary: AudioSummary = { duration: 0, waveform: [] };
+    try {
+      summary = await summarizeAudio(clip);
+    } catch (e) {
+      console.warn("Could not decode voice note:", e);
+    }
+
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory) return;
+
+    const note: VoiceNote = {
+      id: uuidv4(),
+      mimeType: clip.type,
+      duration: summary.duration,
+      waveform: summary.waveform,
+      createdAt: Date.now(),
+      isTranscribing: true,
+      url: URL.createObjectURL(clip),
+    };
+    useMemoryStore.getState().updateMemory(memoryId, { voiceNotes: [...(memory.voiceNotes ?? []), note] });
+    saveAudio(note.id, memoryId, clip).catch((e) => console.error("Failed to persist voice note:", e));
+
+    await this.transcribe(memoryId, note.id, clip);
+  };
+
+  retranscribe = async (memoryId: string, noteId: string) => {
+    const note = this.findNote(memoryId, noteId);
+    if (!note?.url || note.isTranscribing) return;
+    this.updateNote(memoryId, noteId, { isTranscribing: true });
+    try {
+      const clip = await fetch(note.url).then(r => r.blob());
+      await this.transcribe(memoryId, noteId, clip);
+    } catch (e) {
+      console.error("Failed to read voice note:", e);
+      this.updateNote(memoryId, noteId, { isTranscribing: false });
+    }
+  };
+
+  removeVoiceNote = (memoryId: string, noteId: string) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    const note = memory?.voiceNotes?.find(n => n.id === noteId);
+    if (!memory || !note) return;
+
+    useMemoryStore.getState().updateMemory(memoryId, {
+      voiceNotes: memory.voiceNotes!.filter(n => n.id !== noteId),
+    });
+    if (note.url) URL.revokeObjectURL(note.url);
+    deleteAudio(noteId).catch((e) => console.error("Failed to delete voice note:", e));
+  };
+
+  /**
+   * Sends the note's transcript to the memory's conversation as the user's prompt.
+   */
+  askWithTranscript = (memoryId: string, noteId: string) => {
+    const transcript = this.findNote(memoryId, noteId)?.transcript;
+    if (transcript) return this.memoryManager.sendConversationMessage(memoryId, transcript);
+  };
+
+  // A failed transcription leaves the note without a transcript, ready for retranscribe
+  private transcribe = async (memoryId: string, noteId: string, clip: Blob) => {
+    const transcript = await transcribeAudio(await blobToBase64(clip), clip.type);
+    this.updateNote(memoryId, noteId, { isTranscribing: false, ...(transcript !== null ? { transcript } : {}) });
+  };
+
+  private findNote = (memoryId: string, noteId: string) => {
+    return useMemoryStore.getState().memories.find(m => m.id === memoryId)?.voiceNotes?.find(n => n.id === noteId);
+  };
+
+  // Reads the latest notes from the store so concurrent transcriptions don't overwrite each other
+  private updateNote = (memoryId: string, noteId: string, updates: Partial<VoiceNote>) => {
+    const memory = useMemoryStore.getState().memories.find(m => m.id === memoryId);
+    if (!memory?.voiceNotes) return;
+    useMemoryStore.getState().updateMemory(memoryId, {
+      voiceNotes: memory.voiceNotes.map(n => (n.id === noteId ? { ...n, ...updates } : n)),
+    });
+  };
+}
@@ -1,11 +1,12 @@
 import { useWorldStore } from '../stores/worldStore';
-import { useMemoryStore } from '../stores/memoryStore';
+import { useMemoryStore, getVisibleMemories } from '../stores/memoryStore';
+import { useSearchStore, narrowToMatches } from '../stores/searchStore';
 
 export class WorldManager {
   private autoPlayInterval: any = null;
 
   setActiveIndex = (index: number) => {
-    const count = useMemoryStore.getState().memories.length;
+    const count = narrowToMatches(getVisibleMemories(useMemoryStore.getState()), useSearchStore.getState().matchedIds).length;
     if (count === 0) return;
     const safeIndex = (index + count) % count; // Loop navigation for World view
     useWorldStore.getState().setActiveIndex(safeIndex);
@@ -0,0 +1,85 @@
+import { MemoryAnalysis } from '../../types';
+import { normalizeTags } from '../tagService';
+
+const MAX_TAGS = 8;
+const MAX_COLORS = 5;
+const MAX_OBJECTS = 12;
+
+export class AnalysisFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisFormatError';
+  }
+}
+
+const fail = (path: string, expected: string): never => {
+  throw new AnalysisFormatError(`analysis.${path} must be ${expected}`);
+};
+
+const readString = (value: unknown, path: string) => {
+  if (typeof value !== 'string') fail(path, 'a string');
+  return (value as string).trim();
+};
+
+const readStringArray = (value: unknown, path: string) => {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) fail(path, 'an array of strings');
+  return value as string[];
+};
+
+// Accepts #rgb and #rrggbb in any case; anything else is dropped rather than rejected
+const normalizeColor = (color: string) => {
+  const match = color.trim().toLowerCase().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return `#${hex}`;
+};
+
+/**
+ * Checks a decoded analysis object against the MemoryAnalysis schema.
+ * Wrong types throw AnalysisFormatError; values of the right type are normalized
+ * (trimmed, deduplicated, capped, intensity clamped to [0, 1]).
+ */
+export const validateMemoryAnalysis = (value: unknown): MemoryAnalysis => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AnalysisFormatError('analysis must be an object');
+  }
+  const raw = value as Record<string, unknown>;
+
+  const poem = readString(raw.poem, 'poem');
+  if (!poem) fail('poem', 'a non-empty string');
+
+  const mood = raw.mood as Record<string, unknown> | undefined;
+  if (!mood || typeof mood !== 'object') fail('mood', 'an object');
+  const intensity = mood!.intensity;
+  if (typeof intensity !== 'number' || !Number.isFinite(intensity)) fail('mood.intensity', 'a number');
+
+  return {
+    poem,
+    tags: normalizeTags(readStringArray(raw.tags, 'tags'), MAX_TAGS),
+    mood: {
+      label: readString(mood!.label, 'mood.label'),
+      intensity: Math.max(0, Math.min(1, intensity as number)),
+    },
+    colors: [...new Set(readStringArray(raw.colors, 'colors').map(normalizeColor).filter((c): c is string => !!c))].slice(0, MAX_COLORS),
+    scene: readString(raw.scene, 'scene'),
+    objects: normalizeTags(readStringArray(raw.objects, 'objects'), MAX_OBJECTS),
+  };
+};
+
+/**
+ * Parses a model reply into a MemoryAnalysis. Tolerates markdown code fences and
+ * chatter around the JSON object, but not a malformed object.
+ */
+export const parseMemoryAnalysis = (text: string): MemoryAnalysis => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) throw new AnalysisFormatError('Reply contains no JSON object');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new AnalysisFormatError('Reply is not valid JSON');
+  }
+  return validateMemoryAnalysis(value);
+};
@@ -0,0 +1,77 @@
+import { AIConfig, AIProvider, AIProviderKind } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LocalProvider } from './localProvider';
+
+const DEFAULT_MODELS: Record<AIProviderKind, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llava',
+  'local': 'template',
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<AIProviderKind, string> = {
+  'gemini': 'text-embedding-004',
+  'openai-compatible': 'nomic-embed-text',
+  'local': 'hashed-ngrams',
+};
+
+const DEFAULT_TRANSCRIPTION_MODELS: Record<AIProviderKind, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'whisper-1',
+  'local': 'stub',
+};
+
+// Gemini's free tier for gemini-2.5-flash; self-hosted and offline providers are not metered
+const DEFAULT_REQUESTS_PER_MINUTE: Record<AIProviderKind, number> = {
+  'gemini': 10,
+  'openai-compatible': 0,
+  'local': 0,
+};
+
+const DEFAULT_DAILY_REQUEST_BUDGETS: Record<AIProviderKind, number> = {
+  'gemini': 250,
+  'openai-compatible': 0,
+  'local': 0,
+};
+
+const parseLimit = (value: string | undefined, fallback: number) => {
+  const limit = Number(value);
+  return value && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+};
+
+const isProviderKind = (value: string | undefined): value is AIProviderKind => {
+  return value === 'gemini' || value === 'openai-compatible' || value === 'local';
+};
+
+/**
+ * Reads the provider configuration injected at build time (see vite.config.ts).
+ * Without an explicit AI_PROVIDER, Gemini is used when an API key exists, otherwise the offline provider.
+ */
+export const getAIConfig = (): AIConfig => {
+  const requested = process.env.AI_PROVIDER;
+  const provider: AIProviderKind = isProviderKind(requested) ? requested : (process.env.API_KEY ? 'gemini' : 'local');
+  // The Gemini key is never sent to third-party servers
+  const apiKey = provider === 'gemini' ? (process.env.AI_API_KEY || process.env.API_KEY) : process.env.AI_API_KEY;
+
+  return {
+    provider,
+    model: process.env.AI_MODEL || DEFAULT_MODELS[provider],
+    embeddingModel: process.env.AI_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider],
+    transcriptionModel: process.env.AI_TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODELS[provider],
+    apiKey,
+    baseUrl: process.env.AI_BASE_URL || 'http://localhost:11434/v1',
+    requestsPerMinute: parseLimit(process.env.AI_REQUESTS_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE[provider]),
+    dailyRequestBudget: parseLimit(process.env.AI_DAILY_REQUEST_BUDGET, DEFAULT_DAILY_REQUEST_BUDGETS[provider]),
+  };
+};
+
+export const createAIProvider = (config: AIConfig): AIProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey, config.model, config.embeddingModel, config.transcriptionModel);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.baseUrl!, config.model, config.embeddingModel, config.transcriptionModel, config.apiKey);
+    case 'local':
+      return new LocalProvider();
+  }
+};
@@ -0,0 +1,84 @@
+import { GoogleGenAI } from "@google/genai";
+import { ConversationTurn, StylePreset } from '../../types';
+import { AIProvider, AudioInput, ImageInput } from './types';
+import { buildAnalyzePrompt, buildAnalyzeTextPrompt, buildExpandPrompt, TRANSCRIBE_PROMPT } from './prompts';
+import { parseMemoryAnalysis } from './analysisSchema';
+
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(
+    apiKey: string | undefined,
+    private model: string,
+    private embeddingModel: string,
+    private transcriptionModel: string,
+  ) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  private buildContents = (images: ImageInput[], text: string) => ({
+    parts: [
+      ...images.map(image => ({
+        inlineData: {
+          data: image.base64Data,
+          mimeType: image.mimeType,
+        },
+      })),
+      { text },
+    ],
+  });
+
+  private generate = async (images: ImageInput[], text: string, responseMimeType?: string, signal?: AbortSignal) => {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      config: { responseMimeType, abortSignal: signal },
+      contents: this.buildContents(images, text),
+    });
+    return response.text || "";
+  };
+
+  analyzeMemory = async (images: ImageInput[], style: StylePreset, signal?: AbortSignal) => {
+    return parseMemoryAnalysis(await this.generate(images, buildAnalyzePrompt(images.length, style), 'application/json', signal));
+  };
+
+  analyzeText = async (text: string, style: StylePreset, signal?: AbortSignal) => {
+    return parseMemoryAnalysis(await this.generate([], buildAnalyzeTextPrompt(text, style), 'application/json', signal));
+  };
+
+  async *expandMemory(image: ImageInput, currentDescription: string, userPrompt: string, history: ConversationTurn[], style: StylePreset, signal: AbortSignal) {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      config: { abortSignal: signal },
+      contents: this.buildContents([image], buildExpandPrompt(currentDescription, userPrompt, history, style)),
+    });
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  embedTexts = async (texts: string[]) => {
+    const response = await this.ai.models.embedContent({
+      model: this.embeddingModel,
+      contents: texts,
+    });
+    const embeddings = response.embeddings ?? [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(`${this.name} returned ${embeddings.length} embeddings for ${texts.length} texts`);
+    }
+    return embeddings.map(e => e.values ?? []);
+  };
+
+  transcribeAudio = async (audio: AudioInput) => {
+    const response = await this.ai.models.generateContent({
+      model: this.transcriptionModel,
+      contents: {
+        parts: [
+          { inlineData: { data: audio.base64Data, mimeType: audio.mimeType } },
+          { text: TRANSCRIBE_PROMPT },
+        ],
+      },
+    });
+    return (response.text || "").trim();
+  };
+}
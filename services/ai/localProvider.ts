@@ -0,0 +1,158 @@
+import { ConversationTurn, MemoryAnalysis, OutputLanguage, StylePreset } from '../../types';
+import { AIProvider, AudioInput, ImageInput } from './types';
+
+interface Vocabulary {
+  subjects: string[];
+  moments: string[];
+  endings: string[];
+  tags: string[];
+  moods: string[];
+  scenes: string[];
+  objects: string[];
+  compose: (subject: string, moment: string, ending: string) => string;
+}
+
+const VOCABULARIES: Record<OutputLanguage, Vocabulary> = {
+  'zh-CN': {
+    subjects: ["光", "风", "雨", "海", "夜色", "旧街", "云", "落叶", "窗", "星河"],
+    moments: ["在指尖停留", "悄悄走远", "轻声回响", "慢慢褪色", "落进心底", "守着黄昏"],
+    endings: ["像一场未醒的梦。", "仿佛从未离开。", "却记得所有温柔。", "留下一整个季节。", "安静得如同初见。"],
+    tags: ["日常", "旅行", "城市", "自然", "家人", "朋友", "海边", "夜晚", "季节", "独处"],
+    moods: ["怀念", "宁静", "温暖", "惆怅", "欢喜", "孤独"],
+    scenes: ["街角", "海岸", "窗边", "山间", "房间", "车站"],
+    objects: ["天空", "树", "灯", "人影", "道路", "水面", "花", "建筑"],
+    compose: (subject, moment, ending) => `${subject}${moment}，${ending}`,
+  },
+  en: {
+    subjects: ["Light", "The wind", "Rain", "The sea", "Evening", "The old street", "A cloud", "Fallen leaves", "The window", "The stars"],
+    moments: ["lingers on my fingertips", "drifts quietly away", "echoes softly", "slowly fades", "settles in the heart", "keeps watch over dusk"],
+    endings: ["like a dream not yet woken.", "as if it never left.", "yet remembers every kindness.", "leaving a whole season behind.", "as quiet as the first time."],
+    tags: ["everyday", "travel", "city", "nature", "family", "friends", "seaside", "night", "seasons", "solitude"],
+    moods: ["nostalgic", "calm", "warm", "wistful", "joyful", "lonely"],
+    scenes: ["street corner", "coast", "by the window", "mountains", "room", "station"],
+    objects: ["sky", "tree", "lamp", "figure", "road", "water", "flowers", "building"],
+    compose: (subject, moment, ending) => `${subject} ${moment}, ${ending}`,
+  },
+};
+const PALETTES = [
+  ["#1e293b", "#6366f1", "#c7d2fe"],
+  ["#7c2d12", "#f59e0b", "#fde68a"],
+  ["#064e3b", "#10b981", "#d1fae5"],
+  ["#831843", "#ec4899", "#fbcfe8"],
+  ["#0c4a6e", "#38bdf8", "#e0f2fe"],
+];
+const TRANSCRIPTS = [
+  "那天的风很大，我们在海边站了很久。",
+  "这是我们第一次一起出门旅行。",
+  "后来才知道，那是最后一个夏天。",
+  "照片里看不到的是，那天其实下着小雨。",
+];
+const CONTINUATIONS: Record<OutputLanguage, string[]> = {
+  'zh-CN': [
+    "于是时间也放慢了脚步。",
+    "那一刻，心事有了回声。",
+    "而我们，只是路过的光。",
+    "答案藏在风里，不必说出口。",
+  ],
+  en: [
+    "And so time, too, slowed its steps.",
+    "In that moment, every secret found its echo.",
+    "And we were only light passing through.",
+    "The answer hides in the wind, and needs no words.",
+  ],
+};
+
+// FNV-1a: stable across runs so identical inputs always produce identical poems
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Hashing a sample of the payload keeps this cheap for multi-megabyte images
+const sample = (data: string) => data.length <= 4096 ? data : data.slice(0, 2048) + data.slice(-2048) + data.length;
+
+const EMBEDDING_DIMENSIONS = 256;
+const STREAM_CHUNK_DELAY_MS = 60;
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The reply was cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal.aborted) abort();
+  else signal.addEventListener('abort', abort, { once: true });
+});
+
+const pick = <T>(items: T[], seed: number, salt: number) => items[(seed >>> salt) % items.length];
+
+/**
+ * Offline provider: no network, no model. Builds poetry from templates seeded by the input,
+ * so the app is fully usable (and predictable) without an API key.
+ */
+export class LocalProvider implements AIProvider {
+  readonly name = 'local';
+
+  analyzeMemory = async (images: ImageInput[], style: StylePreset, signal?: AbortSignal): Promise<MemoryAnalysis> => {
+    signal?.throwIfAborted();
+    return this.analyzeSeed(hash(`${style.id}|${images.map(image => sample(image.base64Data)).join('|')}`), style);
+  };
+
+  analyzeText = async (text: string, style: StylePreset, signal?: AbortSignal): Promise<MemoryAnalysis> => {
+    signal?.throwIfAborted();
+    return this.analyzeSeed(hash(`${style.id}|${text}`), style);
+  };
+
+  // Only the style's language is honoured; every style gets the same one-line template
+  private analyzeSeed = (seed: number, style: StylePreset): MemoryAnalysis => {
+    const words = VOCABULARIES[style.language];
+    const tags = [pick(words.tags, seed, 4), pick(words.tags, seed, 12)];
+    return {
+      poem: words.compose(pick(words.subjects, seed, 0), pick(words.moments, seed, 8), pick(words.endings, seed, 16)),
+      tags: tags[0] === tags[1] ? [tags[0]] : tags,
+      mood: { label: pick(words.moods, seed, 20), intensity: ((seed >>> 24) % 100) / 100 },
+      colors: pick(PALETTES, seed, 6),
+      scene: pick(words.scenes, seed, 10),
+      objects: [pick(words.objects, seed, 14), pick(words.objects, seed, 18)].filter((o, i, all) => all.indexOf(o) === i),
+    };
+  };
+
+  // Streams the continuation a character at a time, paced like a model would
+  async *expandMemory(_image: ImageInput, currentDescription: string, userPrompt: string, history: ConversationTurn[], style: StylePreset, signal: AbortSignal) {
+    const seed = hash(`${currentDescription}\n${history.map(t => t.text).join('\n')}\n${userPrompt}`);
+    for (const char of pick(CONTINUATIONS[style.language], seed, 0)) {
+      await delay(STREAM_CHUNK_DELAY_MS, signal);
+      yield char;
+    }
+  }
+
+  // Hashed character unigrams and bigrams: a purely lexical stand-in for a real embedding
+  // model, but good enough to rank "雨夜的窗" close to "雨落在窗上".
+  embedTexts = async (texts: string[]) => {
+    return texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const chars = [...text.toLowerCase().replace(/\s+/g, '')];
+      chars.forEach((char, i) => {
+        const features = i + 1 < chars.length ? [char, char + chars[i + 1]] : [char];
+        features.forEach((feature) => {
+          const h = hash(feature);
+          vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000) ? -1 : 1;
+        });
+      });
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map(v => v / norm);
+    });
+  };
+
+  // Stub transcript, seeded by the recording so the same clip always reads the same
+  transcribeAudio = async (audio: AudioInput) => {
+    return pick(TRANSCRIPTS, hash(sample(audio.base64Data)), 0);
+  };
+}
@@ -0,0 +1,149 @@
+import { ConversationTurn, StylePreset } from '../../types';
+import { AIProvider, AudioInput, ImageInput } from './types';
+import { buildAnalyzePrompt, buildAnalyzeTextPrompt, buildExpandPrompt } from './prompts';
+import { parseMemoryAnalysis } from './analysisSchema';
+
+/**
+ * A non-2xx answer. The rate limiter reads `status` and `retryAfterMs` to tell a short
+ * "too many requests" from a used-up quota; the message carries the start of the body, where servers say which.
+ */
+export class ProviderResponseError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterMs: number | null) {
+    super(message);
+    this.name = 'ProviderResponseError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API
+ * (llama.cpp, Ollama, LM Studio, vLLM...). Images are sent inline as data URLs.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private embeddingModel: string,
+    private transcriptionModel: string,
+    private apiKey?: string,
+  ) {}
+
+  // JSON bodies by default; FormData (file uploads) sets its own multipart content type
+  private request = async (endpoint: string, body: unknown, signal?: AbortSignal) => {
+    const isForm = body instanceof FormData;
+    const headers: Record<string, string> = isForm ? {} : { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: isForm ? body : JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderResponseError(
+        `${this.name} request failed: ${response.status} ${response.statusText} ${detail.slice(0, 500)}`.trim(),
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After')),
+      );
+    }
+    return response;
+  };
+
+  private post = async (endpoint: string, body: unknown, signal?: AbortSignal) => {
+    return (await this.request(endpoint, body, signal)).json();
+  };
+
+  private buildChatBody = (images: ImageInput[], text: string) => ({
+    model: this.model,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64Data}` } })),
+          { type: 'text', text },
+        ],
+      },
+    ],
+  });
+
+  private generate = async (images: ImageInput[], text: string, signal?: AbortSignal) => {
+    const data = await this.post('/chat/completions', this.buildChatBody(images, text), signal);
+    const content = data?.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content.trim() : "";
+  };
+
+  // Server-sent events: one `data: {json}` line per delta, closed by `data: [DONE]`
+  private async *generateStream(images: ImageInput[], text: string, signal: AbortSignal) {
+    const response = await this.request('/chat/completions', { ...this.buildChatBody(images, text), stream: true }, signal);
+    if (!response.body) throw new Error(`${this.name} returned no response body to stream`);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return;
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) yield delta;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  // JSON mode isn't supported by every compatible server, so the shape is enforced by the prompt and the parser
+  analyzeMemory = async (images: ImageInput[], style: StylePreset, signal?: AbortSignal) => {
+    return parseMemoryAnalysis(await this.generate(images, buildAnalyzePrompt(images.length, style), signal));
+  };
+
+  analyzeText = async (text: string, style: StylePreset, signal?: AbortSignal) => {
+    return parseMemoryAnalysis(await this.generate([], buildAnalyzeTextPrompt(text, style), signal));
+  };
+
+  expandMemory(image: ImageInput, currentDescription: string, userPrompt: string, history: ConversationTurn[], style: StylePreset, signal: AbortSignal) {
+    return this.generateStream([image], buildExpandPrompt(currentDescription, userPrompt, history, style), signal);
+  }
+
+  embedTexts = async (texts: string[]) => {
+    const data = await this.post('/embeddings', { model: this.embeddingModel, input: texts });
+    const items: { index?: number; embedding: number[] }[] = Array.isArray(data?.data) ? data.data : [];
+    if (items.length !== texts.length) {
+      throw new Error(`${this.name} returned ${items.length} embeddings for ${texts.length} texts`);
+    }
+    // Servers should keep input order, but the index field is authoritative when present
+    return [...items].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map(item => item.embedding);
+  };
+
+  // Whisper-style `/audio/transcriptions`, which takes the recording as a multipart file upload
+  transcribeAudio = async (audio: AudioInput) => {
+    const bytes = Uint8Array.from(atob(audio.base64Data), c => c.charCodeAt(0));
+    const extension = audio.mimeType.split('/')[1]?.split(';')[0] || 'webm';
+    const form = new FormData();
+    form.append('file', new Blob([bytes], { type: audio.mimeType }), `voice-note.${extension}`);
+    form.append('model', this.transcriptionModel);
+
+    const data = await this.post('/audio/transcriptions', form);
+    return typeof data?.text === 'string' ? data.text.trim() : "";
+  };
+}
@@ -0,0 +1,69 @@
+import { ConversationTurn, OutputLanguage, StylePreset } from '../../types';
+
+// Part of every cached result's key: bump it whenever the wording here or in the style presets changes, so results
+// produced by the old prompts are no longer served
+export const PROMPT_VERSION = 2;
+
+const LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+  'zh-CN': 'Chinese',
+  en: 'English',
+};
+
+const TAG_EXAMPLES: Record<OutputLanguage, string> = {
+  'zh-CN': '"海边", "家人", "旅行"',
+  en: '"seaside", "family", "travel"',
+};
+
+const describePoem = (style: StylePreset) => style.template
+  .replace('{language}', LANGUAGE_NAMES[style.language])
+  .replace('{maxWords}', String(style.maxWords));
+
+// Opening of the JSON reply shared by image and text analysis; `subject` is what is being read
+const buildAnalysisFields = (style: StylePreset, subject: string) => {
+  const language = LANGUAGE_NAMES[style.language];
+  return `Reply with a single JSON object and nothing else, in exactly this shape:
+{"poem": string, "tags": string[], "mood": {"label": string, "intensity": number}, "colors": string[], "scene": string, "objects": string[]}
+- poem: ${describePoem(style)}
+- tags: 2 to 6 short topic tags in ${language}, e.g. ${TAG_EXAMPLES[style.language]}.
+- mood: one ${language} word for the mood of the ${subject}, and its intensity from 0 to 1.`;
+};
+
+const buildAnalyzeImagePrompt = (style: StylePreset) => `Observe this image as a fleeting, abstract, and nostalgic memory.
+${buildAnalysisFields(style, 'image')}
+- colors: up to 5 dominant colors as hex codes, e.g. "#d8a47f".
+- scene: a short ${LANGUAGE_NAMES[style.language]} phrase naming the setting.
+- objects: up to 8 notable objects in the image, in ${LANGUAGE_NAMES[style.language]}.`;
+
+export const buildAnalyzeTextPrompt = (entry: string, style: StylePreset) => `Read this journal entry as a fleeting, abstract, and nostalgic memory:
+"${entry}"
+${buildAnalysisFields(style, 'entry')}
+- colors: 3 to 5 colors the memory evokes, as hex codes, e.g. "#d8a47f".
+- scene: a short ${LANGUAGE_NAMES[style.language]} phrase naming the setting, or "" if there is none.
+- objects: up to 8 notable things mentioned in the entry, in ${LANGUAGE_NAMES[style.language]}.`;
+
+const KEYFRAMES_NOTE = `The images are keyframes sampled in order from one short clip. Treat them together as a single moving memory.
+`;
+
+export const buildAnalyzePrompt = (imageCount: number, style: StylePreset) =>
+  (imageCount > 1 ? KEYFRAMES_NOTE : '') + buildAnalyzeImagePrompt(style);
+
+export const TRANSCRIBE_PROMPT = `Transcribe this voice note verbatim, in the language it is spoken.
+Reply with the transcript only: no quotes, labels or commentary. If nothing intelligible is said, reply with an empty string.`;
+
+// Older turns matter less and cost tokens; keep the tail of the conversation only
+const MAX_HISTORY_TURNS = 12;
+
+const formatHistory = (history: ConversationTurn[]) => {
+  if (history.length === 0) return '';
+  const lines = history
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Memory'}: "${turn.text}"`)
+    .join('\n');
+  return `\n                   Conversation so far:\n${lines}`;
+};
+
+// Replies are written in the language of the memory's style, like its interpretation
+export const buildExpandPrompt = (currentDescription: string, userPrompt: string, history: ConversationTurn[], style: StylePreset) =>
+  `Context: A poetic memory description: "${currentDescription}".${formatHistory(history)}
+                   User interaction: "${userPrompt}".
+                   Task: Write a short, poetic continuation or response in ${LANGUAGE_NAMES[style.language]} (max 1 sentence) that flows naturally from the current description and the conversation, inspired by the user's thought. Keep the tone nostalgic and ethereal.`;
@@ -0,0 +1,229 @@
+import { getAIConfig } from './config';
+
+const WINDOW_MS = 60_000;
+// After the provider itself answers "too many requests", every request holds off for its Retry-After,
+// or failing that 15s, 30s, 60s... per refusal in a row
+const SERVER_COOLDOWN_BASE_MS = 15_000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+const USAGE_STORAGE_KEY = 'memory-space-ai-usage';
+
+/**
+ * Thrown instead of sending a request once today's request budget, or the provider's own quota, is used up.
+ */
+export class QuotaExceededError extends Error {
+  constructor(public readonly resetsAt: number) {
+    super('The AI request quota is used up');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export interface AIUsage {
+  // Requests sent today (local calendar day) and the daily budget; a budget of 0 is unlimited
+  used: number;
+  budget: number;
+  // Requests waiting for a free slot under the per-minute limit
+  waiting: number;
+  // When requests can be sent again after the quota ran out, or null while there is quota left
+  exhaustedUntil: number | null;
+}
+
+interface StoredUsage {
+  day: string;
+  used: number;
+  exhaustedUntil: number | null;
+}
+
+const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+const startOfNextDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
+
+const readStoredUsage = (): StoredUsage => {
+  const today = dayKey(Date.now());
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) ?? 'null');
+    if (stored?.day === today && Number.isInteger(stored.used)) {
+      return { day: today, used: stored.used, exhaustedUntil: typeof stored.exhaustedUntil === 'number' ? stored.exhaustedUntil : null };
+    }
+  } catch {
+    // Unreadable usage starts the day over
+  }
+  return { day: today, used: 0, exhaustedUntil: null };
+};
+
+let usage = readStoredUsage();
+// Start times of the requests sent in the last minute, oldest first
+let recentStarts: number[] = [];
+let pausedUntil = 0;
+// Requests between asking for a slot and getting one, and whether the head of the queue is being held back
+let pending = 0;
+let isThrottled = false;
+// Each waiting request chains onto the previous one, so slots are handed out in call order
+let queueTail: Promise<void> = Promise.resolve();
+const listeners = new Set<(usage: AIUsage) => void>();
+
+export const getAIUsage = (): AIUsage => {
+  rollOverDay();
+  const { dailyRequestBudget } = getAIConfig();
+  return { used: usage.used, budget: dailyRequestBudget, waiting: isThrottled ? pending : 0, exhaustedUntil: usage.exhaustedUntil };
+};
+
+/**
+ * Calls `listener` whenever usage changes. Returns an unsubscribe function.
+ */
+export const subscribeToAIUsage = (listener: (usage: AIUsage) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notify = () => {
+  const current = getAIUsage();
+  listeners.forEach(listener => listener(current));
+};
+
+const saveUsage = () => {
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(usage));
+  } catch (e) {
+    console.warn("Could not persist AI usage:", e);
+  }
+};
+
+const rollOverDay = () => {
+  const today = dayKey(Date.now());
+  if (usage.day !== today) usage = { day: today, used: 0, exhaustedUntil: null };
+};
+
+const markExhausted = () => {
+  usage.exhaustedUntil = startOfNextDay(Date.now());
+  saveUsage();
+  notify();
+  return new QuotaExceededError(usage.exhaustedUntil);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The request was cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+});
+
+const takeSlot = async (signal?: AbortSignal) => {
+  const { requestsPerMinute, dailyRequestBudget } = getAIConfig();
+  while (true) {
+    // A request cancelled while it waited its turn gives up its place without spending budget
+    signal?.throwIfAborted();
+    rollOverDay();
+    if (usage.exhaustedUntil !== null || (dailyRequestBudget > 0 && usage.used >= dailyRequestBudget)) {
+      throw markExhausted();
+    }
+
+    const now = Date.now();
+    recentStarts = recentStarts.filter(start => now - start < WINDOW_MS);
+    const windowFreeAt = requestsPerMinute > 0 && recentStarts.length >= requestsPerMinute ? recentStarts[0] + WINDOW_MS : now;
+    const readyAt = Math.max(windowFreeAt, pausedUntil);
+    if (readyAt <= now) break;
+
+    isThrottled = true;
+    notify();
+    try {
+      await sleep(readyAt - now, signal);
+    } finally {
+      isThrottled = false;
+    }
+  }
+
+  recentStarts.push(Date.now());
+  usage.used++;
+  saveUsage();
+};
+
+/**
+ * Waits for a request slot: under the per-minute limit the call queues (in call order) rather than failing.
+ * Counts the request against today's budget, and rejects with QuotaExceededError once that is used up.
+ */
+export const acquireRequestSlot = async (signal?: AbortSignal) => {
+  const turn = queueTail.then(() => takeSlot(signal));
+  // A failed or cancelled turn must not hold up the ones behind it
+  queueTail = turn.catch(() => undefined);
+
+  pending++;
+  try {
+    await turn;
+  } finally {
+    pending--;
+    notify();
+  }
+};
+
+/**
+ * Whether a provider error means "too many requests" (HTTP 429, or Gemini's RESOURCE_EXHAUSTED).
+ */
+export const isRateLimitResponse = (error: unknown) => {
+  if ((error as { status?: unknown } | null)?.status === 429) return true;
+  return error instanceof Error && /\b429\b|RESOURCE_EXHAUSTED/.test(error.message);
+};
+
+/**
+ * Whether a "too many requests" says the quota for the whole day is gone, rather than a per-minute limit:
+ * Gemini names the violated quota (e.g. `GenerateRequestsPerDayPerProjectPerModel`), OpenAI-style servers
+ * answer `insufficient_quota`.
+ */
+export const isDailyQuotaResponse = (error: unknown) => {
+  return isRateLimitResponse(error) && error instanceof Error && /PerDay|per day|daily|insufficient_quota/i.test(error.message);
+};
+
+// How long the provider asked us to wait: a Retry-After header, or the retryDelay in Gemini's error details
+const retryDelayOf = (error: unknown): number | null => {
+  const retryAfterMs = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+  if (typeof retryAfterMs === 'number' && retryAfterMs >= 0) return retryAfterMs;
+  const match = error instanceof Error ? /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(error.message) : null;
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+// Pauses every request after a provider refusal; `strike` counts refusals in a row, from 0
+const coolDown = (error: unknown, strike: number) => {
+  const delay = retryDelayOf(error) ?? SERVER_COOLDOWN_BASE_MS * 2 ** strike;
+  pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+  notify();
+};
+
+/**
+ * Runs one provider request under the limiter. When the provider answers "too many requests" anyway,
+ * all requests pause (as long as it asks, or with a growing backoff) and this one is queued again, a few
+ * times before the refusal is passed on. Only a refusal that names the daily quota ends AI use for the day.
+ */
+export const withRateLimit = async <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let strike = 0; ; strike++) {
+    await acquireRequestSlot(signal);
+    try {
+      return await request();
+    } catch (error) {
+      if (!isRateLimitResponse(error)) throw error;
+      if (isDailyQuotaResponse(error)) throw markExhausted();
+      if (strike >= MAX_RATE_LIMIT_RETRIES) throw error;
+      coolDown(error, strike);
+    }
+  }
+};
+
+/**
+ * For streams, which can't simply be re-sent: a refusal naming the daily quota becomes QuotaExceededError,
+ * any other "too many requests" pauses the following requests and is passed on as it is.
+ */
+export const toQuotaError = (error: unknown) => {
+  if (isDailyQuotaResponse(error)) return markExhausted();
+  if (isRateLimitResponse(error)) coolDown(error, 0);
+  return error;
+};
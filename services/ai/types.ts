@@ -0,0 +1,77 @@
+import { ConversationTurn, MemoryAnalysis, StylePreset } from '../../types';
+
+export interface ImageInput {
+  base64Data: string;
+  mimeType: string;
+}
+
+export interface AudioInput {
+  base64Data: string;
+  mimeType: string;
+}
+
+/**
+ * A backend that can turn images into poetic memory text.
+ * Adapters implement the memory-level tasks; prompt wording lives in ./prompts
+ * so the HTTP-backed adapters stay consistent with each other.
+ */
+export interface AIProvider {
+  readonly name: string;
+
+  /**
+   * Structured analysis of a memory: a short poem plus tags, mood, colors and objects.
+   * `images` is a single photo, or keyframes sampled in playback order from a clip.
+   * `style` decides the form, length and language of the poem (and the language of the other fields).
+   * Rejects with AnalysisFormatError when the model's reply doesn't match the schema.
+   * Aborting `signal` cancels the request with an AbortError.
+   */
+  analyzeMemory(images: ImageInput[], style: StylePreset, signal?: AbortSignal): Promise<MemoryAnalysis>;
+
+  /**
+   * The same structured analysis for a text-only journal entry.
+   * Colors are the ones the entry evokes; they paint the memory's generated artwork.
+   */
+  analyzeText(text: string, style: StylePreset, signal?: AbortSignal): Promise<MemoryAnalysis>;
+
+  /**
+   * A short reply to the user's prompt, in the voice of the memory, streamed as text chunks.
+   * `history` holds the earlier turns of the conversation, oldest first; `style` decides the reply's language.
+   * Aborting `signal` cancels the request; the iterator then throws an AbortError.
+   */
+  expandMemory(
+    image: ImageInput,
+    currentDescription: string,
+    userPrompt: string,
+    history: ConversationTurn[],
+    style: StylePreset,
+    signal: AbortSignal,
+  ): AsyncIterable<string>;
+
+  /**
+   * One embedding vector per input text, in input order. Vectors from the same provider
+   * and embedding model are comparable with cosine similarity.
+   */
+  embedTexts(texts: string[]): Promise<number[][]>;
+
+  /**
+   * Verbatim transcript of a recorded voice note, in the language it was spoken.
+   */
+  transcribeAudio(audio: AudioInput): Promise<string>;
+}
+
+export type AIProviderKind = 'gemini' | 'openai-compatible' | 'local';
+
+export interface AIConfig {
+  provider: AIProviderKind;
+  model: string;
+  // Model used for search embeddings, separate from the vision model
+  embeddingModel: string;
+  // Model used to transcribe voice notes
+  transcriptionModel: string;
+  apiKey?: string;
+  // Only used by the OpenAI-compatible adapter, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+  // Client-side limits; 0 means unlimited
+  requestsPerMinute: number;
+  dailyRequestBudget: number;
+}
@@ -0,0 +1,51 @@
+import { loadAIResult, pruneAIResults, saveAIResult } from './storageService';
+import { PROMPT_VERSION } from './ai/prompts';
+
+// Past these, cached results are dropped: the oldest beyond the count, and any older than the age
+const MAX_CACHED_RESULTS = 2000;
+const MAX_RESULT_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+let pruning: Promise<void> | null = null;
+
+// Once per session, before the cache is first read; results from an older prompt can never be served again
+const pruneOnce = () => {
+  if (!pruning) {
+    const oldest = Date.now() - MAX_RESULT_AGE_MS;
+    pruning = pruneAIResults(record => record.promptVersion === PROMPT_VERSION && record.createdAt >= oldest, MAX_CACHED_RESULTS)
+      .catch((e) => console.warn("Failed to prune cached AI results:", e));
+  }
+  return pruning;
+};
+
+const sha256 = async (parts: string[]) => {
+  // A separator no image data or prompt contains, so ["ab", "c"] and ["a", "bc"] hash differently
+  const bytes = new TextEncoder().encode(parts.join('\u0000'));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Key for a cached AI result: what was asked (`kind`), who answered it (`modelKey`, including the
+ * prompt version) and a content hash of everything the request was about (image data, text, style, conversation).
+ */
+export const getAIResultKey = async (kind: string, modelKey: string, content: string[]) => {
+  return `${kind}:${modelKey}:${await sha256(content)}`;
+};
+
+/**
+ * A cached result, or null when there is none (or the cache can't be read, which is never fatal).
+ */
+export const getCachedAIResult = async <T>(key: string): Promise<T | null> => {
+  await pruneOnce();
+  try {
+    const record = await loadAIResult(key);
+    return record ? record.value as T : null;
+  } catch (e) {
+    console.warn("Failed to read cached AI result:", e);
+    return null;
+  }
+};
+
+export const cacheAIResult = (key: string, value: unknown) => {
+  saveAIResult({ key, value, createdAt: Date.now(), promptVersion: PROMPT_VERSION }).catch((e) => console.error("Failed to cache AI result:", e));
+};
@@ -0,0 +1,145 @@
+import { ConversationTurn, MemoryAnalysis, StylePreset } from '../types';
+import { AIProvider, ImageInput } from './ai/types';
+import { createAIProvider, getAIConfig } from './ai/config';
+import { PROMPT_VERSION } from './ai/prompts';
+import { QuotaExceededError, acquireRequestSlot, toQuotaError, withRateLimit } from './ai/rateLimiter';
+import { cacheAIResult, getAIResultKey, getCachedAIResult } from './aiResultCache';
+
+let provider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    provider = createAIProvider(getAIConfig());
+  }
+  return provider;
+};
+
+/**
+ * Swaps the active provider at runtime (e.g. to the offline provider in tests).
+ */
+export const setAIProvider = (next: AIProvider) => {
+  provider = next;
+};
+
+// Identifies who answers a request, so a different model or prompt wording never reuses a cached result
+const getResultModelKey = () => `${getAIProvider().name}:${getAIConfig().model}:v${PROMPT_VERSION}`;
+
+const toImageContent = (images: ImageInput[]) => images.map(image => `${image.mimeType};${image.base64Data}`);
+
+/**
+ * Analyzes a photo (or a clip's keyframes) into a poetic description plus structured tags, mood, colors and objects.
+ * Results are cached by image content and style. Returns null when the provider fails or its reply doesn't
+ * match the analysis schema, or once `signal` is aborted (the request is cancelled, and a request still waiting
+ * for a slot never spends one); rejects with QuotaExceededError when the request budget is used up.
+ */
+export const analyzeMemory = async (images: ImageInput[], style: StylePreset, signal?: AbortSignal): Promise<MemoryAnalysis | null> => {
+  const key = await getAIResultKey('analysis', getResultModelKey(), [style.id, ...toImageContent(images)]);
+  const cached = await getCachedAIResult<MemoryAnalysis>(key);
+  if (cached) return cached;
+
+  try {
+    const analysis = await withRateLimit(() => getAIProvider().analyzeMemory(images, style, signal), signal);
+    cacheAIResult(key, analysis);
+    return analysis;
+  } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
+    if (!signal?.aborted) console.error("Failed to analyze memory:", error);
+    return null;
+  }
+};
+
+/**
+ * Analyzes a text-only journal entry the same way, with the same caching and failure behaviour as analyzeMemory.
+ */
+export const analyzeText = async (text: string, style: StylePreset, signal?: AbortSignal): Promise<MemoryAnalysis | null> => {
+  const key = await getAIResultKey('journal-analysis', getResultModelKey(), [style.id, text]);
+  const cached = await getCachedAIResult<MemoryAnalysis>(key);
+  if (cached) return cached;
+
+  try {
+    const analysis = await withRateLimit(() => getAIProvider().analyzeText(text, style, signal), signal);
+    cacheAIResult(key, analysis);
+    return analysis;
+  } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
+    if (!signal?.aborted) console.error("Failed to analyze journal entry:", error);
+    return null;
+  }
+};
+
+/**
+ * Streams a reply to a user's prompt about a memory, in the language of its style, with earlier conversation turns as context.
+ * A finished reply is cached, and asking the same thing again streams it back from the cache.
+ * Unlike the other calls this one throws, so the caller can tell a failed or cancelled
+ * reply (aborting `signal` raises an AbortError) from a finished one and decide what to do with the partial text.
+ */
+export async function* expandMemory(
+  base64Data: string, 
+  mimeType: string, 
+  currentDescription: string, 
+  userPrompt: string,
+  history: ConversationTurn[],
+  style: StylePreset,
+  signal: AbortSignal
+): AsyncGenerator<string> {
+  const image = { base64Data, mimeType };
+  const key = await getAIResultKey('reply', getResultModelKey(), [
+    style.language,
+    ...toImageContent([image]),
+    currentDescription,
+    ...history.map(turn => `${turn.role}:${turn.text}`),
+    userPrompt,
+  ]);
+  const cached = await getCachedAIResult<string>(key);
+  if (cached) {
+    yield cached;
+    return;
+  }
+
+  let reply = '';
+  try {
+    await acquireRequestSlot(signal);
+    for await (const chunk of getAIProvider().expandMemory(image, currentDescription, userPrompt, history, style, signal)) {
+      reply += chunk;
+      yield chunk;
+    }
+  } catch (error) {
+    if (!signal.aborted && !(error instanceof QuotaExceededError)) console.error("Failed to expand memory:", error);
+    throw toQuotaError(error);
+  }
+  if (reply.trim()) cacheAIResult(key, reply);
+}
+
+/**
+ * Embeds texts for semantic search. Returns null when the provider can't embed,
+ * so callers can fall back to keyword matching.
+ */
+export const embedTexts = async (texts: string[]): Promise<number[][] | null> => {
+  if (texts.length === 0) return [];
+  // Embedding models are metered separately (and far more generously) than generation, so they skip the limiter
+  try {
+    return await getAIProvider().embedTexts(texts);
+  } catch (error) {
+    console.error("Failed to embed texts:", error);
+    return null;
+  }
+};
+
+/**
+ * Transcribes a voice note. Returns null when the provider fails or the request budget is used up, so the note can be retried.
+ */
+export const transcribeAudio = async (base64Data: string, mimeType: string): Promise<string | null> => {
+  try {
+    return await withRateLimit(() => getAIProvider().transcribeAudio({ base64Data, mimeType }));
+  } catch (error) {
+    console.error("Failed to transcribe audio:", error);
+    return null;
+  }
+};
+
+/**
+ * Identifies the provider and embedding model, so cached vectors from another model are never compared.
+ */
+export const getEmbeddingModelKey = () => {
+  return `${getAIProvider().name}:${getAIConfig().embeddingModel}`;
+};
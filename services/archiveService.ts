@@ -0,0 +1,491 @@
+import { Memory, MemoryMetadata, MemoryAnalysis, ConversationTurn, DescriptionVersion, DescriptionSource, MediaKind, StylePresetId, VoiceNote, AnalysisStatus, AnalysisErrorReason } from '../types';
+import { normalizeTags } from './tagService';
+import { isStylePresetId } from './stylePresets';
+import { validateMemoryAnalysis } from './ai/analysisSchema';
+
+/**
+ * Portable memory-space archive.
+ *
+ * The archive is a plain ZIP file containing:
+ *   manifest.json      - versioned list of memory records
+ *   images/<id>.<ext>  - the original image or clip bytes, one per memory
+ *   audio/<id>.<ext>   - voice note recordings, one per note
+ *
+ * Entries are written uncompressed (images are already compressed), but the
+ * reader also accepts deflated entries so archives re-zipped by other tools still import.
+ */
+
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+export interface ArchiveMemoryEntry {
+  id: string;
+  description: string;
+  timestamp: number;
+  theta: number;
+  phi: number;
+  scale: number;
+  rotation: number;
+  driftSpeed: number;
+  mediaKind: MediaKind;
+  journalText?: string;
+  // Absent in archives from before the status existed
+  analysisStatus?: AnalysisStatus;
+  analysisError?: AnalysisErrorReason;
+  isArchived?: boolean;
+  tags?: string[];
+  stylePresetId?: StylePresetId;
+  analysis?: MemoryAnalysis;
+  metadata?: MemoryMetadata;
+  conversation?: ConversationTurn[];
+  descriptionHistory?: DescriptionVersion[];
+  voiceNotes?: ArchiveVoiceNoteEntry[];
+  // Path of the image inside the archive, or null when only a remote url is known
+  image: string | null;
+  url: string | null;
+}
+
+export interface ArchiveVoiceNoteEntry extends Omit<VoiceNote, 'url' | 'isTranscribing'> {
+  // Path of the recording inside the archive
+  audio: string;
+}
+
+export interface ArchiveManifest {
+  version: number;
+  exportedAt: number;
+  memories: ArchiveMemoryEntry[];
+}
+
+export interface ArchivedMemory {
+  memory: Omit<Memory, 'url' | 'analysisStatus'> & { url: string | null; analysisStatus?: AnalysisStatus };
+  blob: Blob | null;
+  // Voice note recordings by note ID
+  audio: Map<string, Blob>;
+}
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+// --- CRC32 ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// --- ZIP writing ---
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const toDosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, date: day };
+};
+
+const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint16(30, 0, true);
+    header.setUint16(32, 0, true);
+    header.setUint16(34, 0, true);
+    header.setUint16(36, 0, true);
+    header.setUint32(38, 0, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + size;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+// --- ZIP reading ---
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ArchiveFormatError('Compressed archives are not supported in this browser');
+  }
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new ArchiveFormatError('Not a ZIP archive');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let cursor = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) throw new ArchiveFormatError('Corrupt central directory');
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, raw);
+    } else if (method === 8) {
+      files.set(name, await inflateRaw(raw));
+    } else {
+      throw new ArchiveFormatError(`Unsupported compression method ${method} for ${name}`);
+    }
+  }
+
+  return files;
+};
+
+// --- Memory space archive ---
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'audio/webm': 'weba',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime])
+);
+
+// Recorders report parameters such as "audio/webm;codecs=opus"
+const extensionFor = (mimeType: string) => EXTENSIONS[mimeType.split(';')[0]] || 'bin';
+
+const mimeTypeFor = (path: string) => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[ext] || (ext === 'jpeg' ? 'image/jpeg' : 'application/octet-stream');
+};
+
+/**
+ * Packs memories, their original image bytes and voice notes into a single archive file.
+ */
+export const buildSpaceArchive = async (
+  items: { memory: Memory; blob: Blob | null; audio: Map<string, Blob> }[],
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest: ArchiveManifest = {
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    memories: [],
+  };
+
+  for (const { memory, blob, audio } of items) {
+    let image: string | null = null;
+    if (blob) {
+      image = `images/${memory.id}.${extensionFor(blob.type)}`;
+      entries.push({ name: image, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+
+    // Notes whose recording couldn't be read are left out rather than exported silent
+    const voiceNotes: ArchiveVoiceNoteEntry[] = [];
+    for (const { url, isTranscribing, ...note } of memory.voiceNotes ?? []) {
+      const recording = audio.get(note.id);
+      if (!recording) continue;
+      const path = `audio/${note.id}.${extensionFor(note.mimeType)}`;
+      entries.push({ name: path, data: new Uint8Array(await recording.arrayBuffer()) });
+      voiceNotes.push({ ...note, audio: path });
+    }
+
+    manifest.memories.push({
+      id: memory.id,
+      description: memory.description,
+      timestamp: memory.timestamp,
+      theta: memory.theta,
+      phi: memory.phi,
+      scale: memory.scale,
+      rotation: memory.rotation,
+      driftSpeed: memory.driftSpeed,
+      mediaKind: memory.mediaKind,
+      journalText: memory.journalText,
+      analysisStatus: memory.analysisStatus,
+      analysisError: memory.analysisError,
+      isArchived: memory.isArchived,
+      tags: memory.tags,
+      stylePresetId: memory.stylePresetId,
+      analysis: memory.analysis,
+      metadata: memory.metadata,
+      conversation: memory.conversation,
+      descriptionHistory: memory.descriptionHistory,
+      voiceNotes: voiceNotes.length > 0 ? voiceNotes : undefined,
+      image,
+      url: blob || memory.url.startsWith('blob:') ? null : memory.url,
+    });
+  }
+
+  entries.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+const MEDIA_KINDS: MediaKind[] = ['image', 'animated', 'video', 'journal'];
+const ANALYSIS_STATUSES: AnalysisStatus[] = ['pending', 'running', 'done', 'failed', 'cancelled'];
+const ANALYSIS_ERROR_REASONS: AnalysisErrorReason[] = ['quota', 'media', 'provider', 'interrupted'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(options: readonly T[], value: unknown): T | undefined => options.find(option => option === value);
+
+const CONVERSATION_ROLES: ConversationTurn['role'][] = ['user', 'assistant'];
+const DESCRIPTION_SOURCES: DescriptionSource[] = ['initial', 'interpret', 'expand', 'manual', 'revert', 'merge'];
+
+// A damaged analysis is dropped rather than failing the whole import; it can be regenerated
+const readAnalysis = (value: unknown): MemoryAnalysis | undefined => {
+  if (value === undefined) return undefined;
+  try {
+    return validateMemoryAnalysis(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const readVoiceNotes = (value: unknown): ArchiveVoiceNoteEntry[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((note: unknown): note is Record<string, unknown> & { id: string; audio: string; mimeType: string; duration: number } => isRecord(note)
+      && typeof note.id === 'string'
+      && typeof note.audio === 'string'
+      && typeof note.mimeType === 'string'
+      && isNumber(note.duration))
+    .map((note) => ({
+      id: note.id,
+      audio: note.audio,
+      mimeType: note.mimeType,
+      duration: note.duration,
+      waveform: Array.isArray(note.waveform) ? note.waveform.filter(isNumber) : [],
+      createdAt: isNumber(note.createdAt) ? note.createdAt : 0,
+      transcript: typeof note.transcript === 'string' ? note.transcript : undefined,
+    }));
+};
+
+// Turns and versions are rendered as they are, so unlike an analysis a damaged one fails the import
+const readConversation = (value: unknown, index: number): ConversationTurn[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.map((turn: unknown) => {
+    const role = isRecord(turn) ? oneOf(CONVERSATION_ROLES, turn.role) : undefined;
+    if (!isRecord(turn) || !role || typeof turn.id !== 'string' || typeof turn.text !== 'string' || !isNumber(turn.timestamp)) {
+      throw new ArchiveFormatError(`Invalid conversation turn in memory entry at index ${index}`);
+    }
+    return { id: turn.id, role, text: turn.text, timestamp: turn.timestamp };
+  });
+};
+
+const readDescriptionHistory = (value: unknown, index: number): DescriptionVersion[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.map((version: unknown) => {
+    const source = isRecord(version) ? oneOf(DESCRIPTION_SOURCES, version.source) : undefined;
+    if (!isRecord(version) || !source || typeof version.id !== 'string' || typeof version.text !== 'string' || !isNumber(version.timestamp)) {
+      throw new ArchiveFormatError(`Invalid description version in memory entry at index ${index}`);
+    }
+    return {
+      id: version.id,
+      text: version.text,
+      source,
+      timestamp: version.timestamp,
+      stylePresetId: isStylePresetId(version.stylePresetId) ? version.stylePresetId : undefined,
+    };
+  });
+};
+
+// Optional capture details are dropped one by one when malformed; without a capture date there is no metadata
+const readMetadata = (value: unknown): MemoryMetadata | undefined => {
+  if (!isRecord(value) || !isNumber(value.capturedAt)) return undefined;
+  const { camera, gps } = value;
+  return {
+    capturedAt: value.capturedAt,
+    isDateEstimated: value.isDateEstimated === true,
+    camera: isRecord(camera) ? {
+      make: typeof camera.make === 'string' ? camera.make : undefined,
+      model: typeof camera.model === 'string' ? camera.model : undefined,
+    } : undefined,
+    orientation: isNumber(value.orientation) ? value.orientation : undefined,
+    width: isNumber(value.width) ? value.width : undefined,
+    height: isNumber(value.height) ? value.height : undefined,
+    gps: isRecord(gps) && isNumber(gps.latitude) && isNumber(gps.longitude) ? {
+      latitude: gps.latitude,
+      longitude: gps.longitude,
+      altitude: isNumber(gps.altitude) ? gps.altitude : undefined,
+    } : undefined,
+  };
+};
+
+type RawEntry = Record<string, unknown> & Pick<ArchiveMemoryEntry, 'id' | 'description' | 'timestamp' | 'theta' | 'phi' | 'scale' | 'rotation'>;
+
+const isRawEntry = (value: unknown): value is RawEntry => isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.description === 'string'
+  && isNumber(value.timestamp)
+  && isNumber(value.theta)
+  && isNumber(value.phi)
+  && isNumber(value.scale)
+  && isNumber(value.rotation);
+
+const validateEntry = (value: unknown, index: number): ArchiveMemoryEntry => {
+  if (!isRawEntry(value)) throw new ArchiveFormatError(`Invalid memory entry at index ${index}`);
+
+  return {
+    id: value.id,
+    description: value.description,
+    timestamp: value.timestamp,
+    theta: value.theta,
+    phi: value.phi,
+    scale: value.scale,
+    rotation: value.rotation,
+    driftSpeed: isNumber(value.driftSpeed) ? value.driftSpeed : 1,
+    // Archives from before clips were supported only hold stills
+    mediaKind: oneOf(MEDIA_KINDS, value.mediaKind) ?? 'image',
+    journalText: typeof value.journalText === 'string' ? value.journalText : undefined,
+    analysisStatus: oneOf(ANALYSIS_STATUSES, value.analysisStatus),
+    analysisError: oneOf(ANALYSIS_ERROR_REASONS, value.analysisError),
+    isArchived: value.isArchived === true ? true : undefined,
+    tags: Array.isArray(value.tags) ? normalizeTags(value.tags.filter((t: unknown): t is string => typeof t === 'string')) : undefined,
+    stylePresetId: isStylePresetId(value.stylePresetId) ? value.stylePresetId : undefined,
+    analysis: readAnalysis(value.analysis),
+    metadata: readMetadata(value.metadata),
+    conversation: readConversation(value.conversation, index),
+    descriptionHistory: readDescriptionHistory(value.descriptionHistory, index),
+    voiceNotes: readVoiceNotes(value.voiceNotes),
+    image: typeof value.image === 'string' ? value.image : null,
+    url: typeof value.url === 'string' ? value.url : null,
+  };
+};
+
+/**
+ * Reads an archive produced by buildSpaceArchive.
+ * Throws ArchiveFormatError when the file is not a compatible archive.
+ */
+export const parseSpaceArchive = async (file: Blob): Promise<ArchivedMemory[]> => {
+  const files = await readZip(await file.arrayBuffer());
+  const manifestBytes = files.get(MANIFEST_NAME);
+  if (!manifestBytes) throw new ArchiveFormatError('Archive has no manifest.json');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new ArchiveFormatError('manifest.json is not valid JSON');
+  }
+
+  if (!isRecord(manifest) || !isNumber(manifest.version) || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveFormatError(`Unsupported archive version ${isRecord(manifest) ? manifest.version : undefined}`);
+  }
+  if (!Array.isArray(manifest.memories)) throw new ArchiveFormatError('manifest.json has no memories');
+
+  return manifest.memories.map((raw: unknown, index: number) => {
+    const { image, url, voiceNotes, ...fields } = validateEntry(raw, index);
+    const bytes = image ? files.get(image) : undefined;
+    if (image && !bytes) throw new ArchiveFormatError(`Missing image ${image}`);
+    if (!image && !url) throw new ArchiveFormatError(`Memory ${fields.id} has neither an image nor a url`);
+
+    const audio = new Map<string, Blob>();
+    const notes: VoiceNote[] = [];
+    voiceNotes?.forEach(({ audio: path, ...note }) => {
+      const recording = files.get(path);
+      if (!recording) throw new ArchiveFormatError(`Missing voice note ${path}`);
+      audio.set(note.id, new Blob([recording as BlobPart], { type: note.mimeType }));
+      notes.push(note);
+    });
+
+    return {
+      memory: { ...fields, voiceNotes: notes.length > 0 ? notes : undefined, url },
+      blob: bytes ? new Blob([bytes as BlobPart], { type: mimeTypeFor(image!) }) : null,
+      audio,
+    };
+  });
+};
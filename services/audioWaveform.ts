@@ -0,0 +1,37 @@
+/**
+ * Reduces a recording to a row of peak levels for the voice-note waveform preview.
+ */
+
+export interface AudioSummary {
+  duration: number; // Seconds
+  waveform: number[]; // Peak level per bar, normalized so the loudest bar is 1
+}
+
+export const WAVEFORM_BARS = 48;
+
+export const summarizeAudio = async (audio: Blob, bars = WAVEFORM_BARS): Promise<AudioSummary> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const samplesPerBar = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+      for (let i = bar * samplesPerBar; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks) || 1;
+    return {
+      duration: buffer.duration,
+      waveform: peaks.map(p => Math.round((p / loudest) * 100) / 100),
+    };
+  } finally {
+    context.close();
+  }
+};
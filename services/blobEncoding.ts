@@ -0,0 +1,16 @@
+/**
+ * Base64 payload of a blob, without the data-URL prefix, as the AI providers expect it.
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        const base64 = reader.result.split(',')[1];
+        resolve(base64);
+      }
+    };
+    reader.onerror = error => reject(error);
+  });
+};
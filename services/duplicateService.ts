@@ -0,0 +1,70 @@
+import { Memory } from '../types';
+
+// Differing hash bits (of 64) still treated as the same photo: re-encodes, resizes and light edits stay well below this
+export const MAX_DUPLICATE_DISTANCE = 8;
+
+// A memory that looks like a copy of another, earlier one
+export interface DuplicatePair {
+  memoryId: string;
+  duplicateOfId: string;
+  distance: number;
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex-encoded perceptual hashes.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+export const similarityOf = (pair: DuplicatePair): number => 1 - pair.distance / 64;
+
+/**
+ * Identifies a pair regardless of which memory is the look-alike, e.g. to remember that the user kept both.
+ */
+export const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Generated journal art is not a photo anyone could have uploaded twice
+const isComparable = (memory: Memory) => !!memory.perceptualHash && memory.mediaKind !== 'journal';
+
+/**
+ * Finds the memory the given one most likely duplicates, among `candidates`.
+ * Ties go to the earliest memory, which is the one a merge keeps. Pairs in `dismissed` (by pairKey) are skipped.
+ */
+export const findDuplicateOf = (memory: Memory, candidates: Memory[], dismissed: ReadonlySet<string> = new Set()): DuplicatePair | null => {
+  if (!isComparable(memory)) return null;
+
+  let best: DuplicatePair | null = null;
+  let bestTimestamp = Infinity;
+  for (const candidate of candidates) {
+    if (candidate.id === memory.id || !isComparable(candidate) || dismissed.has(pairKey(memory.id, candidate.id))) continue;
+    const distance = hammingDistance(memory.perceptualHash!, candidate.perceptualHash!);
+    if (distance > MAX_DUPLICATE_DISTANCE) continue;
+    if (!best || distance < best.distance || (distance === best.distance && candidate.timestamp < bestTimestamp)) {
+      best = { memoryId: memory.id, duplicateOfId: candidate.id, distance };
+      bestTimestamp = candidate.timestamp;
+    }
+  }
+  return best;
+};
+
+/**
+ * Scans a whole set of memories. Each memory is paired with its closest earlier look-alike,
+ * so a group of copies resolves towards the oldest one.
+ */
+export const findDuplicatePairs = (memories: Memory[], dismissed: ReadonlySet<string> = new Set()): DuplicatePair[] => {
+  const sorted = memories.filter(isComparable).sort((a, b) => a.timestamp - b.timestamp);
+  const pairs: DuplicatePair[] = [];
+  sorted.forEach((memory, i) => {
+    const pair = findDuplicateOf(memory, sorted.slice(0, i), dismissed);
+    if (pair) pairs.push(pair);
+  });
+  return pairs;
+};
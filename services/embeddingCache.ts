@@ -0,0 +1,64 @@
+import { Memory } from '../types';
+import { embedTexts, getEmbeddingModelKey } from './aiService';
+import { loadEmbeddings, saveEmbeddings, StoredEmbedding } from './storageService';
+import { getSearchText, hashText } from './searchService';
+
+const EMBED_BATCH_SIZE = 32;
+
+let cache: Map<string, StoredEmbedding> | null = null;
+let cacheLoad: Promise<Map<string, StoredEmbedding>> | null = null;
+
+const loadCache = () => {
+  if (cache) return Promise.resolve(cache);
+  if (!cacheLoad) {
+    cacheLoad = loadEmbeddings()
+      .catch((e) => {
+        console.error("Failed to load cached embeddings:", e);
+        return [] as StoredEmbedding[];
+      })
+      .then((records) => {
+        cache = new Map(records.map(r => [r.id, r]));
+        return cache;
+      });
+  }
+  return cacheLoad;
+};
+
+/**
+ * Returns an embedding of each memory's search text, computing and caching (in IndexedDB)
+ * the ones that are missing or stale. Memories that can't be embedded right now are left out.
+ */
+export const getMemoryEmbeddings = async (memories: Memory[]): Promise<Map<string, number[]>> => {
+  const entries = await loadCache();
+  const modelKey = getEmbeddingModelKey();
+
+  const pending = memories
+    // Memories not yet analyzed have no words to embed
+    .filter(m => m.description)
+    .map(m => {
+      const text = getSearchText(m);
+      return { id: m.id, text, textHash: hashText(text) };
+    })
+    .filter(item => {
+      const cached = entries.get(item.id);
+      return !cached || cached.modelKey !== modelKey || cached.textHash !== item.textHash;
+    });
+
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await embedTexts(batch.map(item => item.text));
+    if (!vectors) break;
+
+    const records = batch.map((item, j) => ({ id: item.id, modelKey, textHash: item.textHash, vector: vectors[j] }));
+    records.forEach(r => entries.set(r.id, r));
+    saveEmbeddings(records).catch((e) => console.error("Failed to cache embeddings:", e));
+  }
+
+  // A stale vector from the same model is still a better answer than none
+  const vectors = new Map<string, number[]>();
+  memories.forEach(m => {
+    const cached = entries.get(m.id);
+    if (cached && cached.modelKey === modelKey) vectors.set(m.id, cached.vector);
+  });
+  return vectors;
+};
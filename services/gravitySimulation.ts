@@ -0,0 +1,141 @@
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Body {
+  position: Vec3;
+  velocity: Vec3;
+  radius: number;
+}
+
+const GRAVITY = 1800; // px/s^2
+const DAMPING = 0.35; // fraction of velocity kept after one second
+const RESTITUTION = 0.3;
+const COLLISION_PASSES = 4;
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+/**
+ * Converts the screen-space "down" direction into the sphere's local frame.
+ * Must match the nested rotation in OrbView: Outer(Pitch) -> Inner(Yaw).
+ * World = Pitch * Yaw * Local, so Local = Yaw^-1 * Pitch^-1 * World.
+ */
+export const getLocalGravity = (rotXDeg: number, rotYDeg: number): Vec3 => {
+  const rX = rotXDeg * Math.PI / 180;
+  const rY = rotYDeg * Math.PI / 180;
+  // World down in CSS space is +Y
+  return {
+    x: Math.sin(rX) * Math.sin(rY),
+    y: Math.cos(rX),
+    z: -Math.sin(rX) * Math.cos(rY),
+  };
+};
+
+/**
+ * Simple particle physics for orbs constrained to the surface of a sphere.
+ * Orbs slide toward the lowest point along the surface and push each other apart.
+ */
+export class GravitySimulation {
+  private bodies = new Map<string, Body>();
+
+  hasBody = (id: string) => this.bodies.has(id);
+
+  addBody = (id: string, position: Vec3, radius: number) => {
+    this.bodies.set(id, {
+      position: { ...position },
+      velocity: { x: 0, y: 0, z: 0 },
+      radius,
+    });
+  };
+
+  removeBody = (id: string) => {
+    this.bodies.delete(id);
+  };
+
+  clear = () => {
+    this.bodies.clear();
+  };
+
+  getPosition = (id: string): Vec3 | null => {
+    return this.bodies.get(id)?.position ?? null;
+  };
+
+  step = (dt: number, gravity: Vec3, sphereRadius: number) => {
+    const bodies = Array.from(this.bodies.values());
+    const damping = Math.pow(DAMPING, dt);
+
+    bodies.forEach((body) => {
+      body.velocity.x = (body.velocity.x + gravity.x * GRAVITY * dt) * damping;
+      body.velocity.y = (body.velocity.y + gravity.y * GRAVITY * dt) * damping;
+      body.velocity.z = (body.velocity.z + gravity.z * GRAVITY * dt) * damping;
+
+      body.position.x += body.velocity.x * dt;
+      body.position.y += body.velocity.y * dt;
+      body.position.z += body.velocity.z * dt;
+
+      this.constrain(body, sphereRadius);
+    });
+
+    for (let pass = 0; pass < COLLISION_PASSES; pass++) {
+      for (let i = 0; i < bodies.length; i++) {
+        for (let j = i + 1; j < bodies.length; j++) {
+          this.resolveCollision(bodies[i], bodies[j]);
+        }
+      }
+      bodies.forEach((body) => this.constrain(body, sphereRadius));
+    }
+  };
+
+  // Project the body back onto the sphere and drop the radial part of its velocity.
+  private constrain = (body: Body, sphereRadius: number) => {
+    const len = length(body.position) || 1;
+    const n = { x: body.position.x / len, y: body.position.y / len, z: body.position.z / len };
+
+    body.position.x = n.x * sphereRadius;
+    body.position.y = n.y * sphereRadius;
+    body.position.z = n.z * sphereRadius;
+
+    const radial = dot(body.velocity, n);
+    body.velocity.x -= radial * n.x;
+    body.velocity.y -= radial * n.y;
+    body.velocity.z -= radial * n.z;
+  };
+
+  private resolveCollision = (a: Body, b: Body) => {
+    const d = {
+      x: b.position.x - a.position.x,
+      y: b.position.y - a.position.y,
+      z: b.position.z - a.position.z,
+    };
+    const dist = length(d);
+    const minDist = a.radius + b.radius;
+    if (dist >= minDist) return;
+
+    // Coincident bodies: pick an arbitrary separation axis
+    const n = dist > 0.0001 ? { x: d.x / dist, y: d.y / dist, z: d.z / dist } : { x: 1, y: 0, z: 0 };
+    const overlap = (minDist - dist) / 2;
+
+    a.position.x -= n.x * overlap;
+    a.position.y -= n.y * overlap;
+    a.position.z -= n.z * overlap;
+    b.position.x += n.x * overlap;
+    b.position.y += n.y * overlap;
+    b.position.z += n.z * overlap;
+
+    const relative = (b.velocity.x - a.velocity.x) * n.x
+      + (b.velocity.y - a.velocity.y) * n.y
+      + (b.velocity.z - a.velocity.z) * n.z;
+    if (relative >= 0) return;
+
+    const impulse = -(1 + RESTITUTION) * relative / 2;
+    a.velocity.x -= n.x * impulse;
+    a.velocity.y -= n.y * impulse;
+    a.velocity.z -= n.z * impulse;
+    b.velocity.x += n.x * impulse;
+    b.velocity.y += n.y * impulse;
+    b.velocity.z += n.z * impulse;
+  };
+}
@@ -0,0 +1,160 @@
+import { Messages } from './index';
+
+export const en: Messages = {
+  'app.title': 'Memory Space',
+  'app.tagline': 'Upload your photos or write down a moment, and let them settle into poems',
+  'app.brand': 'Memory Space',
+  'app.memoryCount': { one: '{count} memory fragment', other: '{count} memory fragments' },
+
+  'control.upload': 'Upload',
+  'control.write': 'Write',
+  'control.select': 'Select',
+  'control.archive': 'Archive',
+  'control.gravity': 'Gravity',
+  'control.float': 'Float',
+  'control.language': 'Language',
+
+  'view.orb': 'Nebula',
+  'view.gallery': 'Gallery',
+  'view.timeline': 'Timeline',
+  'view.world': 'World',
+
+  'layout.manual': 'Free',
+  'layout.chronological': 'Time',
+  'layout.color': 'Color',
+  'layout.semantic': 'Meaning',
+  'layout.geo': 'Places',
+
+  'memory.awakening': 'Awakening the memory...',
+  'memory.uninterpreted': 'A memory not yet read',
+  'analysisError.quota': "Not read: today's AI quota is used up",
+  'analysisError.media': 'Not read: the media could not be decoded',
+  'analysisError.provider': 'Not read: the AI gave no usable answer',
+  'analysisError.interrupted': 'Not read: the reading was interrupted',
+  'analysis.failedCount': { one: '{count} memory could not be read', other: '{count} memories could not be read' },
+  'analysis.retryAll': 'Retry all',
+
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.done': 'Done',
+  'common.clear': 'Clear',
+  'common.retry': 'Retry',
+  'common.archive': 'Archive',
+  'common.unarchive': 'Unarchive',
+  'common.listSeparator': ', ',
+
+  'archive.export': 'Export space',
+  'archive.exported': 'Space exported',
+  'archive.exportFailed': 'Export failed',
+  'archive.importMerge': 'Import and merge',
+  'archive.importReplace': 'Import and replace',
+  'archive.imported': { one: 'Imported {count} memory', other: 'Imported {count} memories' },
+  'archive.collisions': { one: ', skipped {count} conflicting ID', other: ', skipped {count} conflicting IDs' },
+  'archive.importFailed': 'Import failed: {error}',
+  'archive.findDuplicates': 'Find duplicates',
+  'archive.duplicatesFound': { one: 'Found {count} likely duplicate', other: 'Found {count} likely duplicates' },
+  'archive.noDuplicates': 'No duplicates found',
+  'archive.findDuplicatesFailed': 'Could not look for duplicates',
+  'archive.showArchived': 'Show archived',
+  'archive.hideArchived': 'Hide archived',
+  'archive.busy': 'Working...',
+
+  'journal.placeholder': 'Write down a memory that has no photo...',
+  'journal.submit': 'Keep this memory',
+  'journal.submitting': 'Painting...',
+  'journal.failed': 'Could not paint this memory',
+
+  'modal.estimatedDate': 'The photo has no capture time; using the file modification time',
+  'modal.approximately': 'c. {date}',
+  'modal.editDescription': 'Edit description',
+  'modal.history': 'History',
+  'modal.promoteTurn': 'Use as description',
+  'modal.askPlaceholder': 'Talk to this memory...',
+  'modal.stopReply': 'Stop reply',
+  'modal.replyStopped': 'The reply was cut short',
+  'modal.keepReply': 'Keep',
+  'modal.discardReply': 'Discard',
+
+  'history.empty': 'No changes yet',
+  'history.current': 'Current',
+  'history.revert': 'Restore',
+  'history.source.initial': 'Original',
+  'history.source.interpret': 'AI reading',
+  'history.source.expand': 'AI conversation',
+  'history.source.manual': 'Edited',
+  'history.source.revert': 'Restored',
+  'history.source.merge': 'Merged',
+
+  'style.poetic': 'Poetic line (Chinese)',
+  'style.haiku': 'Haiku (Chinese)',
+  'style.diary': 'Diary caption (Chinese)',
+  'style.poetic-en': 'Poetic line',
+  'style.haiku-en': 'Haiku',
+  'style.followDefault': 'Space default ({name})',
+  'style.keepEach': 'Keep each memory\'s style',
+  'style.regenerate': 'Read again in another style',
+  'style.spaceDefault': 'Default style',
+
+  'tags.remove': 'Remove tag',
+  'tags.placeholder': 'New tag',
+  'tags.add': 'Add tag',
+  'tags.filter': 'Tags',
+  'tags.noMore': 'No more tags',
+
+  'search.placeholder': 'Search memories...',
+  'search.results': { one: '{count} result', other: '{count} results' },
+  'search.noResults': 'Nothing found',
+  'search.semanticPending': ' · searching by meaning...',
+
+  'selection.count': { one: '{count} memory selected', other: '{count} memories selected' },
+  'selection.hint': 'Click memories to select them',
+  'selection.reanalyze': 'Read again',
+
+  'undo.deleted': { one: 'Deleted {count} memory', other: 'Deleted {count} memories' },
+  'undo.undo': 'Undo',
+  'aiUsage.queued': { one: 'Busy: {count} AI request is queued and will be sent shortly', other: 'Busy: {count} AI requests are queued and will be sent shortly' },
+  'aiUsage.exhausted': "Today's AI quota is used up; it resets at {time}",
+  'aiUsage.exhaustedWithBudget': "Today's AI quota ({budget} requests) is used up; it resets at {time}",
+
+  'gallery.swipeHint': 'Swipe up or down',
+
+  'world.index': 'Memories No. {index}',
+  'world.pauseDrift': 'Pause Drift',
+  'world.autoDrift': 'Auto Drift',
+
+  'timeline.zoom.year': 'Y',
+  'timeline.zoom.month': 'M',
+  'timeline.zoom.day': 'D',
+
+  'duplicates.title': 'This memory seems to be here already',
+  'duplicates.remaining': { one: '{count} more pair', other: '{count} more pairs' },
+  'duplicates.similarity': '{percent}% similar',
+  'duplicates.existing': 'Existing',
+  'duplicates.duplicate': 'Duplicate',
+  'duplicates.keepAll': 'Keep all',
+  'duplicates.skip': 'Skip',
+  'duplicates.skipHint': 'Do not keep the duplicate',
+  'duplicates.keepBoth': 'Keep both',
+  'duplicates.merge': 'Merge',
+  'duplicates.mergeHint': 'Keep the earlier date and combine the descriptions',
+
+  'ingest.status.queued': 'Queued',
+  'ingest.status.analyzing': 'Reading',
+  'ingest.status.done': 'Done',
+  'ingest.status.failed': 'Failed',
+  'ingest.status.cancelled': 'Cancelled',
+  'ingest.progress': 'Reading {finished} / {total}',
+  'ingest.finished': { one: 'Processed {count} memory', other: 'Processed {count} memories' },
+  'ingest.summary': 'Queued {queued} · Reading {analyzing} · Done {done}',
+  'ingest.summaryFailed': ' · Failed {failed}',
+  'ingest.clearFinished': 'Clear finished',
+
+  'voice.record': 'Record a voice note',
+  'voice.stop': 'Stop {duration}',
+  'voice.ask': 'Talk to the memory with this',
+  'voice.transcribing': 'Transcribing...',
+  'voice.inaudible': '(Nothing could be made out)',
+  'voice.transcriptionFailed': 'Transcription failed, retry',
+  'voice.microphoneUnavailable': 'The microphone is unavailable',
+};
@@ -0,0 +1,58 @@
+import { zhCN } from './zhCN';
+import { en } from './en';
+
+export type Locale = 'zh-CN' | 'en';
+
+// A message that varies with the `count` param; keys are Intl.PluralRules categories
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageKey = keyof typeof zhCN;
+export type Messages = Record<MessageKey, string | PluralMessage>;
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Every supported locale with its name as written in that language, in the order the switcher lists them.
+ */
+export const LOCALES: { locale: Locale; name: string }[] = [
+  { locale: 'zh-CN', name: '简体中文' },
+  { locale: 'en', name: 'English' },
+];
+
+const CATALOGS: Record<Locale, Messages> = {
+  'zh-CN': zhCN,
+  en,
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.locale === value);
+
+// Chinese browsers get the original interface; everyone else gets English
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return languages.some(language => language.toLowerCase().startsWith('zh')) ? 'zh-CN' : 'en';
+};
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const selectPlural = (locale: Locale, message: PluralMessage, count: number) => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return message[pluralRules.get(locale)!.select(count)] ?? message.other;
+};
+
+/**
+ * Looks up a message and fills in its `{name}` placeholders.
+ * Plural messages pick their form from the `count` param.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGS[locale][key] ?? zhCN[key];
+  const text = typeof message === 'string'
+    ? message
+    : selectPlural(locale, message, Number(params.count ?? 0));
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+/**
+ * Formats a timestamp as a date (or date and time) in the locale's own conventions.
+ */
+export const formatDate = (locale: Locale, timestamp: number, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) => {
+  return new Intl.DateTimeFormat(locale, options).format(timestamp);
+};
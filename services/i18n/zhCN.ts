@@ -0,0 +1,162 @@
+/**
+ * Simplified Chinese, the app's original language. Its keys define the catalog every locale fills in.
+ * `{name}` placeholders are filled from params; plural forms are picked by the `count` param.
+ */
+export const zhCN = {
+  'app.title': '记忆空间',
+  'app.tagline': '上传你的照片，或写下一段往事，让它们在此刻凝结成诗',
+  'app.brand': 'Memory Space',
+  'app.memoryCount': { other: '{count} 个记忆片段' },
+
+  'control.upload': '上传',
+  'control.write': '书写',
+  'control.select': '选择',
+  'control.archive': '归档',
+  'control.gravity': '重力',
+  'control.float': '悬浮',
+  'control.language': '语言',
+
+  'view.orb': '星云',
+  'view.gallery': '画廊',
+  'view.timeline': '时间线',
+  'view.world': '世界',
+
+  'layout.manual': '自由',
+  'layout.chronological': '时间',
+  'layout.color': '色彩',
+  'layout.semantic': '语义',
+  'layout.geo': '地理',
+
+  'memory.awakening': '正在唤醒记忆...',
+  'memory.uninterpreted': '尚未解读的记忆',
+  'analysisError.quota': '今天的 AI 额度已用完，没能解读',
+  'analysisError.media': '无法读取这段影像',
+  'analysisError.provider': 'AI 没有给出有效的解读',
+  'analysisError.interrupted': '解读被中断了',
+  'analysis.failedCount': { other: '{count} 个记忆解读失败' },
+  'analysis.retryAll': '全部重试',
+
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.delete': '删除',
+  'common.done': '完成',
+  'common.clear': '清除',
+  'common.retry': '重试',
+  'common.archive': '归档',
+  'common.unarchive': '取消归档',
+  'common.listSeparator': '、',
+
+  'archive.export': '导出记忆空间',
+  'archive.exported': '已导出记忆空间',
+  'archive.exportFailed': '导出失败',
+  'archive.importMerge': '导入并合并',
+  'archive.importReplace': '导入并替换',
+  'archive.imported': { other: '已导入 {count} 个记忆' },
+  'archive.collisions': { other: '，{count} 个 ID 冲突已跳过' },
+  'archive.importFailed': '导入失败：{error}',
+  'archive.findDuplicates': '查找重复',
+  'archive.duplicatesFound': { other: '发现 {count} 个疑似重复的记忆' },
+  'archive.noDuplicates': '没有发现重复的记忆',
+  'archive.findDuplicatesFailed': '查找重复失败',
+  'archive.showArchived': '显示已归档',
+  'archive.hideArchived': '隐藏已归档',
+  'archive.busy': '处理中...',
+
+  'journal.placeholder': '写下一段没有照片的记忆...',
+  'journal.submit': '凝结成记忆',
+  'journal.submitting': '生成中...',
+  'journal.failed': '无法生成这段记忆的画面',
+
+  'modal.estimatedDate': '照片中没有拍摄时间，使用文件修改时间',
+  'modal.approximately': '约 {date}',
+  'modal.editDescription': '编辑描述',
+  'modal.history': '修改记录',
+  'modal.promoteTurn': '写入记忆描述',
+  'modal.askPlaceholder': '与这段记忆对话...',
+  'modal.stopReply': '停止回复',
+  'modal.replyStopped': '回复没有说完',
+  'modal.keepReply': '保留',
+  'modal.discardReply': '丢弃',
+
+  'history.empty': '还没有修改记录',
+  'history.current': '当前',
+  'history.revert': '恢复',
+  'history.source.initial': '最初',
+  'history.source.interpret': 'AI 解读',
+  'history.source.expand': 'AI 对话',
+  'history.source.manual': '手动编辑',
+  'history.source.revert': '恢复',
+  'history.source.merge': '合并',
+
+  'style.poetic': '诗意短句',
+  'style.haiku': '俳句',
+  'style.diary': '日记',
+  'style.poetic-en': '英文短诗',
+  'style.haiku-en': '英文俳句',
+  'style.followDefault': '跟随默认（{name}）',
+  'style.keepEach': '保持各自的风格',
+  'style.regenerate': '换一种风格重新解读',
+  'style.spaceDefault': '默认解读风格',
+
+  'tags.remove': '移除标签',
+  'tags.placeholder': '新标签',
+  'tags.add': '添加标签',
+  'tags.filter': '标签',
+  'tags.noMore': '没有更多标签',
+
+  'search.placeholder': '搜索记忆...',
+  'search.results': { other: '{count} 个结果' },
+  'search.noResults': '没有找到',
+  'search.semanticPending': ' · 语义搜索中...',
+
+  'selection.count': { other: '已选择 {count} 个记忆' },
+  'selection.hint': '点击记忆以选择',
+  'selection.reanalyze': '重新解读',
+
+  'undo.deleted': { other: '已删除 {count} 个记忆' },
+  'undo.undo': '撤销',
+  'aiUsage.queued': { other: '请求较多，{count} 个 AI 请求排队中，稍后自动发送' },
+  'aiUsage.exhausted': '今天的 AI 额度已用完，{time} 后恢复',
+  'aiUsage.exhaustedWithBudget': '今天的 AI 额度（{budget} 次）已用完，{time} 后恢复',
+
+  'gallery.swipeHint': '上下滑动',
+
+  'world.index': 'Memories No. {index}',
+  'world.pauseDrift': 'Pause Drift',
+  'world.autoDrift': 'Auto Drift',
+
+  'timeline.zoom.year': '年',
+  'timeline.zoom.month': '月',
+  'timeline.zoom.day': '日',
+
+  'duplicates.title': '这段记忆似乎已经存在',
+  'duplicates.remaining': { other: '还有 {count} 组' },
+  'duplicates.similarity': '相似度 {percent}%',
+  'duplicates.existing': '已有',
+  'duplicates.duplicate': '重复',
+  'duplicates.keepAll': '全部保留',
+  'duplicates.skip': '跳过',
+  'duplicates.skipHint': '不保留重复的这张',
+  'duplicates.keepBoth': '保留两者',
+  'duplicates.merge': '合并',
+  'duplicates.mergeHint': '保留较早的时间，合并描述',
+
+  'ingest.status.queued': '排队中',
+  'ingest.status.analyzing': '解读中',
+  'ingest.status.done': '完成',
+  'ingest.status.failed': '失败',
+  'ingest.status.cancelled': '已取消',
+  'ingest.progress': '正在解读 {finished} / {total}',
+  'ingest.finished': { other: '已处理 {count} 个记忆' },
+  'ingest.summary': '排队 {queued} · 解读中 {analyzing} · 完成 {done}',
+  'ingest.summaryFailed': ' · 失败 {failed}',
+  'ingest.clearFinished': '清除已结束',
+
+  'voice.record': '录一段语音',
+  'voice.stop': '停止 {duration}',
+  'voice.ask': '用这段话与记忆对话',
+  'voice.transcribing': '正在转写...',
+  'voice.inaudible': '（没有听清内容）',
+  'voice.transcriptionFailed': '转写失败，重试',
+  'voice.microphoneUnavailable': '无法使用麦克风',
+};
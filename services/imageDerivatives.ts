@@ -0,0 +1,124 @@
+/**
+ * Downscaled renditions of an uploaded photo (or of a video's poster frame). Decoding through createImageBitmap applies
+ * the EXIF orientation, and the re-encoded JPEGs carry no EXIF, so every rendition is upright.
+ * Runs inside the image worker; the main thread only calls it directly when workers are unavailable.
+ */
+
+export interface ImageDerivatives {
+  // Orb bubbles, gallery cards and timeline stacks
+  thumbnail: Blob;
+  // World view and the memory modal
+  preview: Blob;
+  // Size-capped copy sent to the AI provider
+  analysisImage: Blob;
+  // Frames sampled from an animated image for the AI, in playback order; empty for stills
+  keyframes: Blob[];
+  // 64-bit difference hash as 16 hex digits; near-identical photos differ in only a few bits
+  perceptualHash: string;
+}
+
+// Longest edge in pixels; images already smaller are re-encoded at their own size, never upscaled
+const THUMBNAIL_EDGE = 512;
+const PREVIEW_EDGE = 1600;
+const ANALYSIS_EDGE = 1024;
+
+// Frames sampled from animations and video clips; smaller than a still's AI copy since several are sent together
+export const KEYFRAME_COUNT = 4;
+export const KEYFRAME_EDGE = 768;
+
+const JPEG_QUALITY = 0.85;
+
+// JPEG has no alpha, so transparent areas are filled with the app's background instead of black
+const BACKGROUND = '#0f172a';
+
+export const renderScaled = async (bitmap: ImageBitmap, maxEdge: number): Promise<Blob> => {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('2D canvas context is not available');
+
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+};
+
+// dHash: shrink to 9x8 grayscale and record, per row, whether each pixel is brighter than its right neighbour
+const computeDifferenceHash = (bitmap: ImageBitmap): string => {
+  const canvas = new OffscreenCanvas(9, 8);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('2D canvas context is not available');
+
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, 9, 8);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+  const luminance = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    // Each row yields 8 bits, i.e. two hex digits
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+// Evenly spaced frames of an animated GIF/WebP/PNG. Empty for stills, and where ImageDecoder is unavailable.
+const sampleAnimationFrames = async (image: Blob): Promise<Blob[]> => {
+  if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(image.type))) return [];
+
+  const decoder = new ImageDecoder({ data: await image.arrayBuffer(), type: image.type });
+  try {
+    // The frame count is only final once the whole file has been parsed
+    await decoder.completed;
+    const track = decoder.tracks.selectedTrack;
+    if (!track?.animated || track.frameCount < 2) return [];
+
+    const count = Math.min(KEYFRAME_COUNT, track.frameCount);
+    const frames: Blob[] = [];
+    for (let i = 0; i < count; i++) {
+      const frameIndex = Math.floor((i + 0.5) * track.frameCount / count);
+      const { image: frame } = await decoder.decode({ frameIndex });
+      const bitmap = await createImageBitmap(frame);
+      frame.close();
+      try {
+        frames.push(await renderScaled(bitmap, KEYFRAME_EDGE));
+      } finally {
+        bitmap.close();
+      }
+    }
+    return frames;
+  } finally {
+    decoder.close();
+  }
+};
+
+export const canCreateDerivatives = (): boolean =>
+  typeof createImageBitmap === 'function' && typeof OffscreenCanvas === 'function';
+
+export const createDerivatives = async (image: Blob): Promise<ImageDerivatives> => {
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  try {
+    // Sequential on purpose: only one scaled canvas is alive at a time
+    const thumbnail = await renderScaled(bitmap, THUMBNAIL_EDGE);
+    const preview = await renderScaled(bitmap, PREVIEW_EDGE);
+    const analysisImage = await renderScaled(bitmap, ANALYSIS_EDGE);
+    // A broken animation still leaves a usable still
+    const keyframes = await sampleAnimationFrames(image).catch(() => []);
+    return { thumbnail, preview, analysisImage, keyframes, perceptualHash: computeDifferenceHash(bitmap) };
+  } finally {
+    bitmap.close();
+  }
+};
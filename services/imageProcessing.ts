@@ -0,0 +1,68 @@
+import { ImageDerivatives, canCreateDerivatives, createDerivatives } from './imageDerivatives';
+
+/**
+ * Main-thread client for the image worker. Requests are answered in order by a single
+ * worker, which keeps decoding of large batches from competing with rendering.
+ */
+
+interface PendingRequest {
+  resolve: (derivatives: ImageDerivatives) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const rejectAll = (error: Error) => {
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Image worker unavailable, processing on the main thread:", e);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<{ requestId: number; derivatives?: ImageDerivatives; error?: string }>) => {
+    const { requestId, derivatives, error } = event.data;
+    const request = pending.get(requestId);
+    if (!request) return;
+    pending.delete(requestId);
+    if (derivatives) request.resolve(derivatives);
+    else request.reject(new Error(error ?? 'Image processing failed'));
+  };
+  // A worker that fails to load (or crashes) takes its queued requests with it
+  worker.onerror = (event) => {
+    console.error("Image worker failed:", event.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    rejectAll(new Error('Image worker failed'));
+  };
+  return worker;
+};
+
+/**
+ * Produces the thumbnail, preview and AI-sized copy of an image.
+ * Rejects when the image cannot be decoded; callers keep using the original in that case.
+ */
+export const processImage = (image: Blob): Promise<ImageDerivatives> => {
+  const target = getWorker();
+  if (!target) {
+    if (!canCreateDerivatives()) return Promise.reject(new Error('Image processing is not supported'));
+    return createDerivatives(image);
+  }
+
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    target.postMessage({ requestId, image });
+  });
+};
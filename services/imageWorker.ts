@@ -0,0 +1,16 @@
+import { createDerivatives } from './imageDerivatives';
+
+/**
+ * Web Worker entry point: decodes and downscales uploads off the main thread.
+ * Messages are { requestId, image } in and { requestId, derivatives } or { requestId, error } out.
+ */
+
+self.onmessage = async (event: MessageEvent<{ requestId: number; image: Blob }>) => {
+  const { requestId, image } = event.data;
+  try {
+    const derivatives = await createDerivatives(image);
+    self.postMessage({ requestId, derivatives });
+  } catch (e) {
+    self.postMessage({ requestId, error: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,102 @@
+import { MemoryAnalysis } from '../types';
+import { hashText } from './searchService';
+
+/**
+ * Procedural artwork for text-only journal memories: a gradient field with glows,
+ * drifting strands and particles. Everything is seeded from the entry text and its mood,
+ * so the same entry always renders the same image.
+ */
+
+const ART_SIZE = 1024;
+const JPEG_QUALITY = 0.9;
+
+// mulberry32: tiny, fast and good enough for placing shapes
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Before the analysis has colors, the palette is three hues around one picked from the text
+const derivePalette = (random: () => number): string[] => {
+  const hue = Math.floor(random() * 360);
+  return [
+    `hsl(${hue}, 45%, 18%)`,
+    `hsl(${(hue + 40) % 360}, 60%, 45%)`,
+    `hsl(${(hue + 150) % 360}, 70%, 75%)`,
+  ];
+};
+
+export const renderJournalArt = async (
+  text: string,
+  mood?: Pick<MemoryAnalysis, 'mood' | 'colors'>,
+): Promise<Blob> => {
+  const random = createRandom(parseInt(hashText(`${text}\n${mood?.mood.label ?? ''}`), 16));
+  const palette = mood && mood.colors.length >= 2 ? mood.colors : derivePalette(random);
+  // Stronger moods get busier, brighter compositions
+  const intensity = mood?.mood.intensity ?? 0.5;
+  const pickColor = () => palette[Math.floor(random() * palette.length)];
+
+  const canvas = new OffscreenCanvas(ART_SIZE, ART_SIZE);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('2D canvas context is not available');
+
+  // Background: a diagonal gradient between two palette colors
+  const angle = random() * Math.PI * 2;
+  const dx = Math.cos(angle) * ART_SIZE / 2;
+  const dy = Math.sin(angle) * ART_SIZE / 2;
+  const background = context.createLinearGradient(ART_SIZE / 2 - dx, ART_SIZE / 2 - dy, ART_SIZE / 2 + dx, ART_SIZE / 2 + dy);
+  background.addColorStop(0, palette[0]);
+  background.addColorStop(1, palette[1]);
+  context.fillStyle = background;
+  context.fillRect(0, 0, ART_SIZE, ART_SIZE);
+
+  context.globalCompositeOperation = 'lighter';
+
+  // Glows
+  const glowCount = 3 + Math.floor(random() * 3);
+  for (let i = 0; i < glowCount; i++) {
+    const x = random() * ART_SIZE;
+    const y = random() * ART_SIZE;
+    const radius = ART_SIZE * (0.2 + random() * 0.35);
+    const glow = context.createRadialGradient(x, y, 0, x, y, radius);
+    glow.addColorStop(0, pickColor());
+    glow.addColorStop(1, 'transparent');
+    context.globalAlpha = 0.25 + intensity * 0.3;
+    context.fillStyle = glow;
+    context.fillRect(0, 0, ART_SIZE, ART_SIZE);
+  }
+
+  // Strands
+  context.lineCap = 'round';
+  const strandCount = 4 + Math.floor(intensity * 6);
+  for (let i = 0; i < strandCount; i++) {
+    context.globalAlpha = 0.08 + random() * 0.12;
+    context.strokeStyle = pickColor();
+    context.lineWidth = 1 + random() * 6;
+    context.beginPath();
+    context.moveTo(random() * ART_SIZE, random() * ART_SIZE);
+    context.bezierCurveTo(
+      random() * ART_SIZE, random() * ART_SIZE,
+      random() * ART_SIZE, random() * ART_SIZE,
+      random() * ART_SIZE, random() * ART_SIZE,
+    );
+    context.stroke();
+  }
+
+  // Particles
+  const particleCount = 60 + Math.floor(intensity * 160);
+  for (let i = 0; i < particleCount; i++) {
+    context.globalAlpha = 0.2 + random() * 0.6;
+    context.fillStyle = pickColor();
+    context.beginPath();
+    context.arc(random() * ART_SIZE, random() * ART_SIZE, 0.5 + random() * random() * 6, 0, Math.PI * 2);
+    context.fill();
+  }
+
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+};
@@ -0,0 +1,32 @@
+import { OrbPlacement } from '../../types';
+import { LayoutStrategy } from './types';
+import { latLonToSpherical } from './geoLayout';
+
+// Oldest memories sit at this latitude (north), the newest at its negative (south)
+const MAX_LATITUDE = 70;
+const GOLDEN_ANGLE_DEG = 180 * (3 - Math.sqrt(5));
+
+/**
+ * Latitude is time: oldest at the top, newest at the bottom, linear in the timestamp.
+ * Longitude steps by the golden angle in date order so memories from the same period
+ * fan out around the sphere instead of stacking.
+ */
+export const chronologicalLayout: LayoutStrategy = {
+  computePlacements: async (memories) => {
+    const placements = new Map<string, OrbPlacement>();
+    if (memories.length === 0) return placements;
+
+    const sorted = [...memories].sort((a, b) => a.timestamp - b.timestamp);
+    const first = sorted[0].timestamp;
+    const span = sorted[sorted.length - 1].timestamp - first;
+
+    sorted.forEach((memory, index) => {
+      const t = span > 0 ? (memory.timestamp - first) / span : 0.5;
+      const latitude = MAX_LATITUDE - t * 2 * MAX_LATITUDE;
+      const longitude = ((index * GOLDEN_ANGLE_DEG + 180) % 360) - 180;
+      placements.set(memory.id, latLonToSpherical(latitude, longitude));
+    });
+
+    return placements;
+  },
+};
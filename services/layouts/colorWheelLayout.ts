@@ -0,0 +1,47 @@
+import { OrbPlacement } from '../../types';
+import { LayoutStrategy } from './types';
+import { latLonToSpherical } from './geoLayout';
+import { placeOnUnplacedRing, relaxPlacements } from './placement';
+
+// Light colors rise to this latitude, dark ones sink to its negative
+const MAX_LATITUDE = 65;
+
+const hexToHsl = (hex: string) => {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { hue: 0, lightness };
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  return { hue: (hue * 60 + 360) % 360, lightness };
+};
+
+/**
+ * Longitude is the hue of the dominant color (red faces the camera, the wheel runs eastwards),
+ * latitude its lightness. Memories without an analyzed palette wait on the unplaced ring.
+ */
+export const colorWheelLayout: LayoutStrategy = {
+  computePlacements: async (memories) => {
+    const placements = new Map<string, OrbPlacement>();
+    const unplaced = memories.filter(m => !m.analysis?.colors.length);
+
+    memories.forEach((memory) => {
+      const color = memory.analysis?.colors[0];
+      if (!color) return;
+      const { hue, lightness } = hexToHsl(color);
+      const longitude = hue > 180 ? hue - 360 : hue;
+      const latitude = (lightness - 0.5) * 2 * MAX_LATITUDE;
+      placements.set(memory.id, latLonToSpherical(latitude, longitude));
+    });
+
+    placeOnUnplacedRing(unplaced, placements);
+    return relaxPlacements(placements);
+  },
+};
@@ -0,0 +1,84 @@
+import { Memory, OrbPlacement } from '../../types';
+import { LayoutStrategy } from './types';
+import { placeOnUnplacedRing } from './placement';
+
+// Coarse continent outlines as [longitude, latitude] rings. Only meant as a faint hint
+// of the globe behind the orbs, not as a map.
+const CONTINENT_OUTLINES: [number, number][][] = [
+  // North America
+  [[-168, 65], [-162, 70], [-140, 70], [-125, 70], [-95, 72], [-80, 68], [-65, 60], [-55, 52], [-66, 45], [-70, 42], [-76, 35], [-81, 31], [-80, 25], [-84, 30], [-90, 29], [-97, 27], [-97, 22], [-94, 18], [-88, 21], [-87, 16], [-83, 10], [-80, 8], [-86, 12], [-92, 15], [-105, 20], [-110, 24], [-115, 30], [-118, 34], [-124, 40], [-124, 47], [-130, 54], [-140, 60], [-150, 60], [-158, 57], [-165, 60], [-168, 65]],
+  // Greenland
+  [[-45, 60], [-20, 70], [-20, 82], [-60, 82], [-72, 77], [-55, 67], [-45, 60]],
+  // South America
+  [[-80, 8], [-72, 12], [-60, 10], [-50, 0], [-35, -5], [-39, -15], [-48, -26], [-58, -35], [-65, -42], [-68, -52], [-72, -53], [-75, -45], [-72, -30], [-70, -18], [-76, -12], [-81, -5], [-80, 0], [-80, 8]],
+  // Eurasia
+  [[-10, 36], [-9, 43], [-2, 44], [-5, 48], [2, 51], [8, 54], [10, 57], [5, 62], [15, 69], [28, 71], [40, 67], [60, 70], [80, 73], [105, 78], [140, 72], [170, 70], [180, 66], [170, 60], [160, 55], [150, 60], [140, 55], [135, 44], [129, 35], [121, 31], [122, 25], [110, 20], [108, 12], [104, 10], [100, 14], [98, 8], [103, 1], [98, 16], [92, 22], [80, 15], [77, 8], [72, 20], [66, 25], [57, 25], [50, 30], [48, 30], [56, 24], [59, 22], [52, 16], [44, 12], [40, 20], [35, 28], [34, 31], [36, 36], [27, 37], [26, 40], [22, 40], [15, 44], [19, 40], [16, 38], [12, 44], [8, 44], [3, 43], [-1, 37], [-5, 36], [-10, 36]],
+  // Great Britain
+  [[-5, 50], [2, 51], [0, 54], [-3, 59], [-6, 57], [-5, 50]],
+  // Japan
+  [[130, 31], [135, 34], [140, 36], [142, 40], [141, 45], [145, 44], [140, 42], [139, 38], [133, 35], [130, 31]],
+  // Africa
+  [[-17, 21], [-10, 30], [-6, 36], [10, 37], [20, 31], [32, 31], [35, 28], [43, 12], [51, 12], [40, -3], [40, -15], [35, -24], [32, -29], [20, -35], [18, -30], [12, -17], [13, -5], [9, 4], [-5, 5], [-13, 9], [-17, 15], [-17, 21]],
+  // Madagascar
+  [[44, -25], [47, -25], [50, -15], [49, -12], [44, -17], [44, -25]],
+  // Australia
+  [[114, -22], [114, -34], [123, -34], [130, -31], [138, -35], [143, -38], [150, -37], [153, -28], [145, -15], [142, -11], [136, -12], [130, -12], [122, -18], [114, -22]],
+];
+
+/**
+ * Maps geographic coordinates onto the orb sphere.
+ * Sphere convention (see MemoryOrb): y = R*cos(phi) with CSS +y pointing down, so the
+ * north pole is phi = PI. Longitude 0 faces the camera at rest (theta = PI/2), east to the right.
+ */
+export const latLonToSpherical = (latitude: number, longitude: number) => {
+  const lat = latitude * Math.PI / 180;
+  const lon = longitude * Math.PI / 180;
+  return {
+    theta: Math.PI / 2 - lon,
+    phi: Math.PI / 2 + lat,
+  };
+};
+
+/**
+ * Places GPS-tagged memories at their real position; everything else is spread evenly on the unplaced ring.
+ */
+export const getGeoPlacements = (memories: Memory[]): Map<string, OrbPlacement> => {
+  const placements = new Map<string, OrbPlacement>();
+  const unplaced = memories.filter(m => !m.metadata?.gps);
+
+  memories.forEach((memory) => {
+    const gps = memory.metadata?.gps;
+    if (gps) {
+      placements.set(memory.id, latLonToSpherical(gps.latitude, gps.longitude));
+    }
+  });
+
+  placeOnUnplacedRing(unplaced, placements);
+
+  return placements;
+};
+
+export const geoLayout: LayoutStrategy = {
+  computePlacements: async (memories) => getGeoPlacements(memories),
+};
+
+/**
+ * Samples the continent outlines into points roughly `stepDeg` apart, ready to render as dots.
+ */
+export const getContinentOutlinePoints = (stepDeg = 2.5) => {
+  const points: { theta: number; phi: number }[] = [];
+
+  CONTINENT_OUTLINES.forEach((ring) => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [lon1, lat1] = ring[i];
+      const [lon2, lat2] = ring[i + 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(lon2 - lon1, lat2 - lat1) / stepDeg));
+      for (let s = 0; s < steps; s++) {
+        const t = s / steps;
+        points.push(latLonToSpherical(lat1 + (lat2 - lat1) * t, lon1 + (lon2 - lon1) * t));
+      }
+    }
+  });
+
+  return points;
+};
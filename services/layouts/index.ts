@@ -0,0 +1,23 @@
+import { OrbLayoutMode } from '../../types';
+import { LayoutStrategy } from './types';
+import { geoLayout } from './geoLayout';
+import { chronologicalLayout } from './chronologicalLayout';
+import { colorWheelLayout } from './colorWheelLayout';
+import { semanticLayout } from './semanticLayout';
+
+const manualLayout: LayoutStrategy = {
+  computePlacements: async () => null,
+};
+
+/**
+ * Every orb layout, in the order the layout picker lists them.
+ */
+export const LAYOUT_STRATEGIES: Record<OrbLayoutMode, LayoutStrategy> = {
+  manual: manualLayout,
+  chronological: chronologicalLayout,
+  color: colorWheelLayout,
+  semantic: semanticLayout,
+  geo: geoLayout,
+};
+
+export type { LayoutStrategy } from './types';
@@ -0,0 +1,122 @@
+import { Memory, OrbPlacement } from '../../types';
+import { Vec3 } from '../gravitySimulation';
+
+// Memories a layout can't place orbit the globe on a ring slightly outside the sphere.
+const UNPLACED_RING_SCALE = 1.3;
+
+export const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.hypot(v.x, v.y, v.z) || 1;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+/**
+ * Unit direction for a placement, using the MemoryOrb convention:
+ * x = sin(phi)cos(theta), y = cos(phi) (CSS +y down), z = sin(phi)sin(theta).
+ */
+export const placementToDirection = ({ theta, phi }: OrbPlacement): Vec3 => ({
+  x: Math.sin(phi) * Math.cos(theta),
+  y: Math.cos(phi),
+  z: Math.sin(phi) * Math.sin(theta),
+});
+
+export const directionToPlacement = (v: Vec3): OrbPlacement => {
+  const n = normalize(v);
+  return {
+    theta: Math.atan2(n.z, n.x),
+    phi: Math.acos(Math.max(-1, Math.min(1, n.y))),
+  };
+};
+
+/**
+ * The i-th of n points evenly spread over the sphere, starting front and center (facing the camera at rest).
+ */
+export const fibonacciDirection = (index: number, total: number): Vec3 => {
+  const z = 1 - (2 * (index + 0.5)) / total;
+  const r = Math.sqrt(1 - z * z);
+  const angle = index * GOLDEN_ANGLE;
+  return { x: r * Math.cos(angle), y: r * Math.sin(angle), z };
+};
+
+/**
+ * Direction of the index-th point of a sunflower spiral around `center`, `step` radians between rings.
+ * Index 0 is the center itself.
+ */
+export const spiralAround = (center: Vec3, index: number, step: number): Vec3 => {
+  const c = normalize(center);
+  const up = Math.abs(c.y) < 0.99 ? { x: 0, y: 1, z: 0 } : { x: 1, y: 0, z: 0 };
+  const u = normalize(cross(up, c));
+  const w = cross(c, u);
+
+  const distance = step * Math.sqrt(index);
+  const angle = index * GOLDEN_ANGLE;
+  const tangent = {
+    x: u.x * Math.cos(angle) + w.x * Math.sin(angle),
+    y: u.y * Math.cos(angle) + w.y * Math.sin(angle),
+    z: u.z * Math.cos(angle) + w.z * Math.sin(angle),
+  };
+  return normalize({
+    x: c.x * Math.cos(distance) + tangent.x * Math.sin(distance),
+    y: c.y * Math.cos(distance) + tangent.y * Math.sin(distance),
+    z: c.z * Math.cos(distance) + tangent.z * Math.sin(distance),
+  });
+};
+
+/**
+ * Spreads the given memories evenly on the unplaced ring, starting in front of the camera.
+ */
+export const placeOnUnplacedRing = (memories: Memory[], placements: Map<string, OrbPlacement>) => {
+  memories.forEach((memory, index) => {
+    placements.set(memory.id, {
+      theta: Math.PI / 2 + (index / memories.length) * Math.PI * 2,
+      phi: Math.PI / 2,
+      radiusScale: UNPLACED_RING_SCALE,
+    });
+  });
+};
+
+/**
+ * Pushes apart surface placements that sit closer than `minAngle` radians, so orbs
+ * mapped to the same spot (same color, same cluster centre...) stay readable.
+ * Off-surface placements (the unplaced ring) are left alone.
+ */
+export const relaxPlacements = (placements: Map<string, OrbPlacement>, iterations = 12) => {
+  const ids = [...placements.keys()].filter(id => !placements.get(id)!.radiusScale);
+  if (ids.length < 2) return placements;
+
+  // Roughly the spacing of n evenly spread points, capped so sparse layouts keep their shape
+  const minAngle = Math.max(0.08, Math.min(0.3, Math.sqrt((4 * Math.PI) / ids.length) * 0.7));
+  const minDot = Math.cos(minAngle);
+  const dirs = ids.map(id => placementToDirection(placements.get(id)!));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let moved = false;
+    for (let i = 0; i < dirs.length; i++) {
+      for (let j = i + 1; j < dirs.length; j++) {
+        const a = dirs[i];
+        const b = dirs[j];
+        const dot = a.x * b.x + a.y * b.y + a.z * b.z;
+        if (dot <= minDot) continue;
+
+        const push = (minAngle - Math.acos(Math.min(1, dot))) * 0.5;
+        // Coincident points have no direction between them; split them along a per-pair direction instead
+        const other = dot > 0.999999 ? spiralAround(a, j + 1, 1) : b;
+        const d = normalize({ x: a.x - other.x, y: a.y - other.y, z: a.z - other.z });
+        dirs[i] = normalize({ x: a.x + d.x * push, y: a.y + d.y * push, z: a.z + d.z * push });
+        dirs[j] = normalize({ x: b.x - d.x * push, y: b.y - d.y * push, z: b.z - d.z * push });
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  ids.forEach((id, i) => placements.set(id, directionToPlacement(dirs[i])));
+  return placements;
+};
@@ -0,0 +1,108 @@
+import { Memory, OrbPlacement } from '../../types';
+import { LayoutStrategy } from './types';
+import { getMemoryEmbeddings } from '../embeddingCache';
+import { cosineSimilarity } from '../searchService';
+import { directionToPlacement, fibonacciDirection, placeOnUnplacedRing, relaxPlacements, spiralAround } from './placement';
+
+const MAX_CLUSTERS = 8;
+const KMEANS_ITERATIONS = 15;
+// Angular distance between the rings of a cluster's spiral
+const CLUSTER_SPACING = 0.22;
+
+const normalize = (v: number[]) => {
+  const length = Math.hypot(...v) || 1;
+  return v.map(x => x / length);
+};
+
+const mean = (vectors: number[][]) => {
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  vectors.forEach(v => v.forEach((x, i) => { sum[i] += x; }));
+  return normalize(sum);
+};
+
+/**
+ * Spherical k-means with farthest-point initialization, so the result is deterministic for a given input.
+ * Returns the cluster index of each vector.
+ */
+const clusterVectors = (vectors: number[][], k: number) => {
+  const centroids = [vectors[0]];
+  while (centroids.length < k) {
+    let farthest = 0;
+    let farthestScore = Infinity;
+    vectors.forEach((v, i) => {
+      const best = Math.max(...centroids.map(c => cosineSimilarity(v, c)));
+      if (best < farthestScore) {
+        farthestScore = best;
+        farthest = i;
+      }
+    });
+    centroids.push(vectors[farthest]);
+  }
+
+  let assignment = new Array<number>(vectors.length).fill(0);
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const next = vectors.map(v => {
+      let best = 0;
+      centroids.forEach((c, ci) => {
+        if (cosineSimilarity(v, c) > cosineSimilarity(v, centroids[best])) best = ci;
+      });
+      return best;
+    });
+    const changed = next.some((c, i) => c !== assignment[i]);
+    assignment = next;
+
+    centroids.forEach((_, ci) => {
+      const members = vectors.filter((__, i) => assignment[i] === ci);
+      if (members.length > 0) centroids[ci] = mean(members);
+    });
+    if (!changed && iter > 0) break;
+  }
+
+  return { assignment, centroids };
+};
+
+/**
+ * Groups memories by the embedding of their description, tags and analysis. Each cluster is
+ * a patch of the sphere (largest first, front and center), with the members most typical
+ * of the cluster at its middle. Memories without an embedding wait on the unplaced ring.
+ */
+export const semanticLayout: LayoutStrategy = {
+  computePlacements: async (memories) => {
+    const placements = new Map<string, OrbPlacement>();
+    const vectors = await getMemoryEmbeddings(memories);
+
+    const embedded: { memory: Memory; vector: number[] }[] = [];
+    const unplaced: Memory[] = [];
+    memories.forEach(memory => {
+      const vector = vectors.get(memory.id);
+      if (vector && vector.length > 0) embedded.push({ memory, vector: normalize(vector) });
+      else unplaced.push(memory);
+    });
+
+    if (embedded.length > 0) {
+      const k = Math.max(1, Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(embedded.length / 2))));
+      const { assignment, centroids } = clusterVectors(embedded.map(e => e.vector), k);
+
+      const clusters = centroids
+        .map((centroid, ci) => ({
+          centroid,
+          members: embedded.filter((_, i) => assignment[i] === ci),
+        }))
+        .filter(c => c.members.length > 0)
+        .sort((a, b) => b.members.length - a.members.length);
+
+      clusters.forEach((cluster, ci) => {
+        const center = fibonacciDirection(ci, clusters.length);
+        const members = [...cluster.members].sort(
+          (a, b) => cosineSimilarity(b.vector, cluster.centroid) - cosineSimilarity(a.vector, cluster.centroid)
+        );
+        members.forEach(({ memory }, j) => {
+          placements.set(memory.id, directionToPlacement(spiralAround(center, j, CLUSTER_SPACING)));
+        });
+      });
+    }
+
+    placeOnUnplacedRing(unplaced, placements);
+    return relaxPlacements(placements);
+  },
+};
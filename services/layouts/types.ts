@@ -0,0 +1,11 @@
+import { Memory, OrbPlacement } from '../../types';
+
+/**
+ * A way of arranging the orbs on the sphere.
+ * Strategies never touch a memory's own theta/phi; they return placements that override it,
+ * so switching back to the manual layout restores the user's arrangement.
+ */
+export interface LayoutStrategy {
+  // null means "no override": orbs sit at their own theta/phi
+  computePlacements(memories: Memory[]): Promise<Map<string, OrbPlacement> | null>;
+}
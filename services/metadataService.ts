@@ -0,0 +1,405 @@
+import { MemoryMetadata } from '../types';
+
+/**
+ * Minimal EXIF / XMP reader for JPEG, PNG and WebP uploads.
+ * Only the handful of fields the app uses are extracted: capture time, camera,
+ * orientation, pixel dimensions and GPS position. Video clips only yield their creation time.
+ */
+
+interface RawMetadata {
+  capturedAt?: number;
+  make?: string;
+  model?: string;
+  orientation?: number;
+  width?: number;
+  height?: number;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+}
+
+// --- TIFF / EXIF ---
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_DATETIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_PIXEL_X = 0xa002;
+const TAG_PIXEL_Y = 0xa003;
+
+type TagValue = string | number | number[];
+
+const readIfd = (view: DataView, start: number, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  if (start + offset + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(start + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 0) * n;
+    if (size === 0) continue;
+
+    const valueOffset = size <= 4 ? entry + 8 : start + view.getUint32(entry + 8, little);
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < n; j++) {
+        const c = view.getUint8(valueOffset + j);
+        if (c === 0) break;
+        text += String.fromCharCode(c);
+      }
+      tags.set(tag, text.trim());
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(view.getUint8(valueOffset + j));
+          break;
+        case 3:
+          values.push(view.getUint16(valueOffset + j * 2, little));
+          break;
+        case 4:
+          values.push(view.getUint32(valueOffset + j * 4, little));
+          break;
+        case 9:
+          values.push(view.getInt32(valueOffset + j * 4, little));
+          break;
+        case 5: {
+          const den = view.getUint32(valueOffset + j * 8 + 4, little);
+          values.push(den ? view.getUint32(valueOffset + j * 8, little) / den : 0);
+          break;
+        }
+        case 10: {
+          const den = view.getInt32(valueOffset + j * 8 + 4, little);
+          values.push(den ? view.getInt32(valueOffset + j * 8, little) / den : 0);
+          break;
+        }
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+
+  return tags;
+};
+
+const asNumber = (value: TagValue | undefined) => typeof value === 'number' ? value : undefined;
+const asString = (value: TagValue | undefined) => typeof value === 'string' && value ? value : undefined;
+
+// "YYYY:MM:DD HH:MM:SS" is camera-local time; honour the offset tag when present.
+const parseExifDate = (value: string | undefined, offset?: string): number | undefined => {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  if (y === '0000') return undefined;
+
+  const iso = `${y}-${mo}-${d}T${h}:${mi}:${s}${offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ''}`;
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const toDegrees = (value: TagValue | undefined, ref: string | undefined, negativeRef: string) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+};
+
+const parseTiff = (view: DataView, start: number): RawMetadata => {
+  if (start + 8 > view.byteLength) return {};
+  const order = view.getUint16(start);
+  const little = order === 0x4949;
+  if (!little && order !== 0x4d4d) return {};
+
+  const ifd0 = readIfd(view, start, view.getUint32(start + 4, little), little);
+  const exifOffset = asNumber(ifd0.get(TAG_EXIF_IFD));
+  const gpsOffset = asNumber(ifd0.get(TAG_GPS_IFD));
+  const exif = exifOffset ? readIfd(view, start, exifOffset, little) : new Map<number, TagValue>();
+  const gps = gpsOffset ? readIfd(view, start, gpsOffset, little) : new Map<number, TagValue>();
+
+  const offsetTime = asString(exif.get(TAG_OFFSET_TIME_ORIGINAL));
+  const capturedAt = parseExifDate(asString(exif.get(TAG_DATETIME_ORIGINAL)), offsetTime)
+    ?? parseExifDate(asString(exif.get(TAG_DATETIME_DIGITIZED)), offsetTime)
+    ?? parseExifDate(asString(ifd0.get(TAG_DATETIME)));
+
+  const latitude = toDegrees(gps.get(2), asString(gps.get(1)), 'S');
+  const longitude = toDegrees(gps.get(4), asString(gps.get(3)), 'W');
+  const altitudeValue = asNumber(gps.get(6));
+  const altitudeRef = gps.get(5);
+  const altitude = altitudeValue !== undefined
+    ? (altitudeRef === 1 ? -altitudeValue : altitudeValue)
+    : undefined;
+
+  return {
+    capturedAt,
+    make: asString(ifd0.get(TAG_MAKE)),
+    model: asString(ifd0.get(TAG_MODEL)),
+    orientation: asNumber(ifd0.get(TAG_ORIENTATION)),
+    width: asNumber(exif.get(TAG_PIXEL_X)),
+    height: asNumber(exif.get(TAG_PIXEL_Y)),
+    latitude,
+    longitude,
+    altitude,
+  };
+};
+
+// --- XMP ---
+
+const xmpValue = (xmp: string, name: string): string | undefined => {
+  const attr = xmp.match(new RegExp(`${name}="([^"]*)"`));
+  if (attr) return attr[1];
+  const element = xmp.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return element ? element[1] : undefined;
+};
+
+// XMP GPS coordinates look like "37,46.512N"
+const parseXmpCoordinate = (value: string | undefined) => {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/);
+  if (!match) return undefined;
+  const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] || 0) / 3600;
+  return match[4] === 'S' || match[4] === 'W' ? -degrees : degrees;
+};
+
+const parseXmp = (xmp: string): RawMetadata => {
+  const date = xmpValue(xmp, 'exif:DateTimeOriginal')
+    || xmpValue(xmp, 'photoshop:DateCreated')
+    || xmpValue(xmp, 'xmp:CreateDate');
+  const parsedDate = date ? Date.parse(date) : NaN;
+  const orientation = Number(xmpValue(xmp, 'tiff:Orientation'));
+
+  return {
+    capturedAt: Number.isNaN(parsedDate) ? undefined : parsedDate,
+    make: xmpValue(xmp, 'tiff:Make'),
+    model: xmpValue(xmp, 'tiff:Model'),
+    orientation: orientation || undefined,
+    latitude: parseXmpCoordinate(xmpValue(xmp, 'exif:GPSLatitude')),
+    longitude: parseXmpCoordinate(xmpValue(xmp, 'exif:GPSLongitude')),
+  };
+};
+
+// --- Containers ---
+
+const decodeAscii = (view: DataView, start: number, length: number) => {
+  return new TextDecoder('latin1').decode(new Uint8Array(view.buffer, view.byteOffset + start, length));
+};
+
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const parseJpeg = (view: DataView): RawMetadata[] => {
+  const found: RawMetadata[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) break;
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xd9 || marker === 0xda) break; // end of image / start of scan
+    const length = view.getUint16(offset + 2);
+    const segment = offset + 4;
+
+    if (marker === 0xe1) {
+      if (decodeAscii(view, segment, 6) === 'Exif\0\0') {
+        found.push(parseTiff(view, segment + 6));
+      } else if (decodeAscii(view, segment, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER) {
+        found.push(parseXmp(decodeAscii(view, segment + XMP_JPEG_HEADER.length, length - 2 - XMP_JPEG_HEADER.length)));
+      }
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      found.push({ height: view.getUint16(segment + 1), width: view.getUint16(segment + 3) });
+    }
+
+    offset = segment + length - 2;
+  }
+
+  return found;
+};
+
+const parsePng = (view: DataView): RawMetadata[] => {
+  const found: RawMetadata[] = [];
+  let offset = 8;
+
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = decodeAscii(view, offset + 4, 4);
+    const data = offset + 8;
+    if (data + length > view.byteLength) break;
+
+    if (type === 'IHDR') {
+      found.push({ width: view.getUint32(data), height: view.getUint32(data + 4) });
+    } else if (type === 'eXIf') {
+      found.push(parseTiff(view, data));
+    } else if (type === 'iTXt') {
+      const text = decodeAscii(view, data, length);
+      if (text.startsWith('XML:com.adobe.xmp\0')) {
+        found.push(parseXmp(new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + data, length))));
+      }
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset = data + length + 4; // skip CRC
+  }
+
+  return found;
+};
+
+const parseWebp = (view: DataView): RawMetadata[] => {
+  const found: RawMetadata[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const type = decodeAscii(view, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+    if (data + length > view.byteLength) break;
+
+    if (type === 'VP8X') {
+      const width = 1 + (view.getUint8(data + 4) | (view.getUint8(data + 5) << 8) | (view.getUint8(data + 6) << 16));
+      const height = 1 + (view.getUint8(data + 7) | (view.getUint8(data + 8) << 8) | (view.getUint8(data + 9) << 16));
+      found.push({ width, height });
+    } else if (type === 'VP8 ' && length >= 10) {
+      found.push({ width: view.getUint16(data + 6, true) & 0x3fff, height: view.getUint16(data + 8, true) & 0x3fff });
+    } else if (type === 'VP8L' && length >= 5) {
+      const bits = view.getUint32(data + 1, true);
+      found.push({ width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 });
+    } else if (type === 'EXIF') {
+      const tiffStart = decodeAscii(view, data, 6) === 'Exif\0\0' ? data + 6 : data;
+      found.push(parseTiff(view, tiffStart));
+    } else if (type === 'XMP ') {
+      found.push(parseXmp(new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + data, length))));
+    }
+
+    offset = data + length + (length % 2); // chunks are padded to even sizes
+  }
+
+  return found;
+};
+
+const parseContainer = (view: DataView): RawMetadata[] => {
+  if (view.byteLength < 12) return [];
+  if (view.getUint16(0) === 0xffd8) return parseJpeg(view);
+  if (view.getUint32(0) === 0x89504e47) return parsePng(view);
+  if (decodeAscii(view, 0, 4) === 'RIFF' && decodeAscii(view, 8, 4) === 'WEBP') return parseWebp(view);
+  return [];
+};
+
+// Earlier sources win: EXIF appears before XMP in all three containers and is more precise.
+const mergeRaw = (sources: RawMetadata[]): RawMetadata => {
+  const merged: RawMetadata = {};
+  // Generic over the key, so each field is copied with its own type
+  const take = <K extends keyof RawMetadata>(source: RawMetadata, key: K) => {
+    if (merged[key] === undefined && source[key] !== undefined) merged[key] = source[key];
+  };
+  sources.forEach((source) => {
+    (Object.keys(source) as (keyof RawMetadata)[]).forEach((key) => take(source, key));
+  });
+  return merged;
+};
+
+/**
+ * Reads capture metadata from an image file. Never throws: unreadable files fall back
+ * to the file's lastModified time with the date marked as estimated.
+ */
+export const readImageMetadata = async (file: File): Promise<MemoryMetadata> => {
+  let raw: RawMetadata = {};
+  try {
+    raw = mergeRaw(parseContainer(new DataView(await file.arrayBuffer())));
+  } catch (error) {
+    console.warn("Failed to read image metadata:", error);
+  }
+
+  const hasGps = raw.latitude !== undefined && raw.longitude !== undefined
+    && Math.abs(raw.latitude) <= 90 && Math.abs(raw.longitude) <= 180
+    && !(raw.latitude === 0 && raw.longitude === 0);
+
+  return {
+    capturedAt: raw.capturedAt ?? file.lastModified,
+    isDateEstimated: raw.capturedAt === undefined,
+    camera: raw.make || raw.model ? { make: raw.make, model: raw.model } : undefined,
+    orientation: raw.orientation,
+    width: raw.width,
+    height: raw.height,
+    gps: hasGps ? { latitude: raw.latitude!, longitude: raw.longitude!, altitude: raw.altitude } : undefined,
+  };
+};
+
+// --- MP4 / QuickTime ---
+
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+// The movie header box is small; a larger moov is only read up to this much
+const MAX_MOOV_BYTES = 4 * 1024 * 1024;
+
+const readSlice = async (file: Blob, start: number, length: number) =>
+  new DataView(await file.slice(start, start + length).arrayBuffer());
+
+// Walks the top-level boxes without loading the (possibly large) media data
+const findTopLevelBox = async (file: Blob, type: string): Promise<{ start: number; size: number } | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readSlice(file, offset, 16);
+    let size = header.getUint32(0);
+    let headerSize = 8;
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return null;
+    if (decodeAscii(header, 4, 4) === type) return { start: offset + headerSize, size: size - headerSize };
+    offset += size;
+  }
+  return null;
+};
+
+const parseMovieHeader = (moov: DataView): RawMetadata => {
+  let offset = 0;
+  while (offset + 8 <= moov.byteLength) {
+    const size = moov.getUint32(offset);
+    if (size < 8) break;
+    if (decodeAscii(moov, offset + 4, 4) === 'mvhd' && offset + 20 <= moov.byteLength) {
+      const version = moov.getUint8(offset + 8);
+      const seconds = version === 1
+        ? Number(moov.getBigUint64(offset + 12))
+        : moov.getUint32(offset + 12);
+      // Zero means the recorder left the creation time unset
+      return seconds > QUICKTIME_EPOCH_OFFSET ? { capturedAt: (seconds - QUICKTIME_EPOCH_OFFSET) * 1000 } : {};
+    }
+    offset += size;
+  }
+  return {};
+};
+
+/**
+ * Reads the creation time of an MP4 / QuickTime clip. Never throws: like readImageMetadata,
+ * unreadable files fall back to the file's lastModified time with the date marked as estimated.
+ */
+export const readVideoMetadata = async (file: File): Promise<MemoryMetadata> => {
+  let raw: RawMetadata = {};
+  try {
+    const moov = await findTopLevelBox(file, 'moov');
+    if (moov) raw = parseMovieHeader(await readSlice(file, moov.start, Math.min(moov.size, MAX_MOOV_BYTES)));
+  } catch (error) {
+    console.warn("Failed to read video metadata:", error);
+  }
+
+  return {
+    capturedAt: raw.capturedAt ?? file.lastModified,
+    isDateEstimated: raw.capturedAt === undefined,
+  };
+};
@@ -0,0 +1,70 @@
+import { Memory } from '../types';
+
+// Below this cosine similarity a memory is never a semantic match
+const MIN_SEMANTIC_SCORE = 0.35;
+// Matches must also be within this distance of the best score, so a weak query doesn't light up everything
+const SEMANTIC_SCORE_WINDOW = 0.15;
+const MAX_SEMANTIC_MATCHES = 12;
+
+/**
+ * Everything search looks at for a memory: description, tags and the analysis details.
+ */
+export const getSearchText = (memory: Memory) => {
+  const analysis = memory.analysis;
+  return [
+    memory.description,
+    memory.journalText,
+    ...(memory.tags ?? []),
+    analysis?.mood.label,
+    analysis?.scene,
+    ...(analysis?.objects ?? []),
+    ...(memory.voiceNotes ?? []).map(note => note.transcript),
+  ].filter(Boolean).join(' ');
+};
+
+// FNV-1a, used to notice when a memory's search text changed since it was embedded
+export const hashText = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+};
+
+/**
+ * Case-insensitive substring match; every whitespace-separated term of the query must appear.
+ */
+export const matchesKeywords = (memory: Memory, query: string) => {
+  const haystack = getSearchText(memory).toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * IDs of the memories semantically close to the query vector, best first.
+ */
+export const findSemanticMatches = (queryVector: number[], vectors: Map<string, number[]>) => {
+  const ranked = [...vectors.entries()]
+    .map(([id, vector]) => ({ id, score: cosineSimilarity(queryVector, vector) }))
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) return [];
+
+  const cutoff = Math.max(MIN_SEMANTIC_SCORE, ranked[0].score - SEMANTIC_SCORE_WINDOW);
+  return ranked
+    .filter(r => r.score >= cutoff)
+    .slice(0, MAX_SEMANTIC_MATCHES)
+    .map(r => r.id);
+};
@@ -0,0 +1,302 @@
+import { Memory } from '../types';
+
+const DB_NAME = 'memory-space';
+const DB_VERSION = 5;
+const MEMORY_STORE = 'memories';
+const BLOB_STORE = 'blobs';
+const EMBEDDING_STORE = 'embeddings';
+const DERIVATIVE_STORE = 'derivatives';
+const AUDIO_STORE = 'audio';
+const AI_RESULT_STORE = 'ai-results';
+
+// Downscaled renditions generated on ingest; the original stays in the blob store
+export interface StoredDerivatives {
+  id: string;
+  thumbnail: Blob;
+  preview: Blob;
+  analysisImage: Blob;
+  // Frames of an animation or clip sent to the AI instead of the single analysis image
+  keyframes?: Blob[];
+}
+
+// A voice note recording, keyed by note ID and indexed by the memory it belongs to
+interface StoredAudio {
+  id: string;
+  memoryId: string;
+  blob: Blob;
+}
+
+export interface StoredMemory {
+  memory: Memory;
+  blob: Blob | null;
+  derivatives: StoredDerivatives | null;
+  // Voice note recordings by note ID
+  audio: Map<string, Blob>;
+}
+
+// A cached search embedding; stale once the memory's text or the embedding model changes
+export interface StoredEmbedding {
+  id: string;
+  modelKey: string;
+  textHash: string;
+  vector: number[];
+}
+
+// A cached AI answer, keyed by what was asked (content hash, prompt version, model and style)
+export interface StoredAIResult {
+  key: string;
+  value: unknown;
+  createdAt: number;
+  // Results cached before this was recorded have none, and count as made by an outdated prompt
+  promptVersion?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MEMORY_STORE)) {
+        db.createObjectStore(MEMORY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        db.createObjectStore(BLOB_STORE);
+      }
+      if (!db.objectStoreNames.contains(EMBEDDING_STORE)) {
+        db.createObjectStore(EMBEDDING_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DERIVATIVE_STORE)) {
+        db.createObjectStore(DERIVATIVE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE, { keyPath: 'id' }).createIndex('memoryId', 'memoryId');
+      }
+      if (!db.objectStoreNames.contains(AI_RESULT_STORE)) {
+        db.createObjectStore(AI_RESULT_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Object URLs die with the page, so they are never written to disk.
+// The blob and derivative stores are the source of truth for uploaded images.
+const toRecord = (memory: Memory): Memory => {
+  const { thumbnailUrl, previewUrl, ...record } = memory;
+  if (record.voiceNotes) {
+    record.voiceNotes = record.voiceNotes.map(({ url, ...note }) => note);
+  }
+  return record.url.startsWith('blob:') ? { ...record, url: '' } : record;
+};
+
+/**
+ * Loads every persisted memory together with its original image bytes, renditions and voice notes (if any).
+ */
+export const loadAllMemories = async (): Promise<StoredMemory[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MEMORY_STORE, BLOB_STORE, DERIVATIVE_STORE, AUDIO_STORE], 'readonly');
+  const blobStore = tx.objectStore(BLOB_STORE);
+
+  // Issue all requests up-front so the transaction stays alive until they settle.
+  const [memories, blobKeys, blobs, derivatives, audio] = await Promise.all([
+    requestToPromise(tx.objectStore(MEMORY_STORE).getAll() as IDBRequest<Memory[]>),
+    requestToPromise(blobStore.getAllKeys()),
+    requestToPromise(blobStore.getAll() as IDBRequest<Blob[]>),
+    requestToPromise(tx.objectStore(DERIVATIVE_STORE).getAll() as IDBRequest<StoredDerivatives[]>),
+    requestToPromise(tx.objectStore(AUDIO_STORE).getAll() as IDBRequest<StoredAudio[]>),
+  ]);
+
+  const blobById = new Map<string, Blob>();
+  blobKeys.forEach((key, i) => blobById.set(String(key), blobs[i]));
+  const derivativesById = new Map(derivatives.map((d) => [d.id, d]));
+  const audioByMemory = new Map<string, Map<string, Blob>>();
+  audio.forEach(({ id, memoryId, blob }) => {
+    if (!audioByMemory.has(memoryId)) audioByMemory.set(memoryId, new Map());
+    audioByMemory.get(memoryId)!.set(id, blob);
+  });
+
+  return memories.map((memory) => ({
+    memory,
+    blob: blobById.get(memory.id) ?? null,
+    derivatives: derivativesById.get(memory.id) ?? null,
+    audio: audioByMemory.get(memory.id) ?? new Map(),
+  }));
+};
+
+/**
+ * Writes (inserts or replaces) a batch of memory records.
+ */
+export const saveMemories = async (memories: Memory[]): Promise<void> => {
+  if (memories.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  const store = tx.objectStore(MEMORY_STORE);
+  memories.forEach((memory) => store.put(toRecord(memory)));
+  await transactionDone(tx);
+};
+
+/**
+ * Stores the original image bytes for a memory.
+ */
+export const saveBlob = async (id: string, blob: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BLOB_STORE, 'readwrite');
+  tx.objectStore(BLOB_STORE).put(blob, id);
+  await transactionDone(tx);
+};
+
+/**
+ * Stores the downscaled renditions of a memory's image.
+ */
+export const saveDerivatives = async (derivatives: StoredDerivatives): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DERIVATIVE_STORE, 'readwrite');
+  tx.objectStore(DERIVATIVE_STORE).put(derivatives);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads the downscaled renditions of one memory's image, or null if none were generated.
+ */
+export const loadDerivatives = async (id: string): Promise<StoredDerivatives | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DERIVATIVE_STORE, 'readonly');
+  const result = await requestToPromise(tx.objectStore(DERIVATIVE_STORE).get(id) as IDBRequest<StoredDerivatives | undefined>);
+  return result ?? null;
+};
+
+/**
+ * Stores the recording of a voice note.
+ */
+export const saveAudio = async (id: string, memoryId: string, blob: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).put({ id, memoryId, blob } satisfies StoredAudio);
+  await transactionDone(tx);
+};
+
+/**
+ * Removes the recording of a single voice note.
+ */
+export const deleteAudio = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Removes memory records together with their image bytes, renditions, voice notes and cached embeddings.
+ */
+export const deleteMemories = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([MEMORY_STORE, BLOB_STORE, EMBEDDING_STORE, DERIVATIVE_STORE, AUDIO_STORE], 'readwrite');
+  const memoryStore = tx.objectStore(MEMORY_STORE);
+  const blobStore = tx.objectStore(BLOB_STORE);
+  const embeddingStore = tx.objectStore(EMBEDDING_STORE);
+  const derivativeStore = tx.objectStore(DERIVATIVE_STORE);
+  const audioByMemory = tx.objectStore(AUDIO_STORE).index('memoryId');
+  ids.forEach((id) => {
+    memoryStore.delete(id);
+    blobStore.delete(id);
+    embeddingStore.delete(id);
+    derivativeStore.delete(id);
+    audioByMemory.openCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Loads every cached search embedding.
+ */
+export const loadEmbeddings = async (): Promise<StoredEmbedding[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EMBEDDING_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(EMBEDDING_STORE).getAll() as IDBRequest<StoredEmbedding[]>);
+};
+
+/**
+ * Writes (inserts or replaces) cached search embeddings.
+ */
+export const saveEmbeddings = async (embeddings: StoredEmbedding[]): Promise<void> => {
+  if (embeddings.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(EMBEDDING_STORE, 'readwrite');
+  const store = tx.objectStore(EMBEDDING_STORE);
+  embeddings.forEach((embedding) => store.put(embedding));
+  await transactionDone(tx);
+};
+
+/**
+ * Looks up a cached AI result. Results outlive the memories they were made for,
+ * so a re-uploaded or re-imported image is answered from the cache.
+ */
+export const loadAIResult = async (key: string): Promise<StoredAIResult | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_RESULT_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(AI_RESULT_STORE).get(key) as IDBRequest<StoredAIResult | undefined>);
+  return record ?? null;
+};
+
+export const saveAIResult = async (record: StoredAIResult): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_RESULT_STORE, 'readwrite');
+  tx.objectStore(AI_RESULT_STORE).put(record);
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes the cached AI results `keep` rejects, then the oldest of the rest beyond `maxEntries`.
+ */
+export const pruneAIResults = async (keep: (record: StoredAIResult) => boolean, maxEntries: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_RESULT_STORE, 'readwrite');
+  const store = tx.objectStore(AI_RESULT_STORE);
+  const kept: { key: string; createdAt: number }[] = [];
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) {
+      const record = cursor.value as StoredAIResult;
+      if (keep(record)) kept.push({ key: record.key, createdAt: record.createdAt });
+      else cursor.delete();
+      cursor.continue();
+      return;
+    }
+    kept
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, Math.max(0, kept.length - maxEntries))
+      .forEach(({ key }) => store.delete(key));
+  };
+  await transactionDone(tx);
+};
@@ -0,0 +1,46 @@
+import { StylePreset, StylePresetId } from '../types';
+
+export const DEFAULT_STYLE_PRESET_ID: StylePresetId = 'poetic';
+
+/**
+ * Every interpretation style, in the order the pickers list them.
+ * `poetic` is the original wording of the analysis prompt.
+ */
+export const STYLE_PRESETS: Record<StylePresetId, StylePreset> = {
+  poetic: {
+    id: 'poetic',
+    template: 'a single, very short, poetic sentence in {language} (maximum {maxWords} words). Do not describe the literal content, but the feeling of the memory.',
+    language: 'zh-CN',
+    maxWords: 20,
+  },
+  haiku: {
+    id: 'haiku',
+    template: 'a haiku-like poem in {language}: three short lines separated by "\\n", with a seasonal image (maximum {maxWords} words in total). Suggest the feeling rather than stating it.',
+    language: 'zh-CN',
+    maxWords: 20,
+  },
+  diary: {
+    id: 'diary',
+    template: 'a plain, factual diary caption in {language}, in the first person (maximum {maxWords} words). Say what is happening and where, without metaphors.',
+    language: 'zh-CN',
+    maxWords: 40,
+  },
+  'poetic-en': {
+    id: 'poetic-en',
+    template: 'a single, very short, poetic sentence in {language} (maximum {maxWords} words). Do not describe the literal content, but the feeling of the memory.',
+    language: 'en',
+    maxWords: 20,
+  },
+  'haiku-en': {
+    id: 'haiku-en',
+    template: 'a haiku in {language}: three lines of 5, 7 and 5 syllables separated by "\\n" (maximum {maxWords} words in total). Suggest the feeling rather than stating it.',
+    language: 'en',
+    maxWords: 17,
+  },
+};
+
+export const isStylePresetId = (value: unknown): value is StylePresetId =>
+  typeof value === 'string' && value in STYLE_PRESETS;
+
+export const getStylePreset = (id: StylePresetId | undefined): StylePreset =>
+  STYLE_PRESETS[id ?? DEFAULT_STYLE_PRESET_ID] ?? STYLE_PRESETS[DEFAULT_STYLE_PRESET_ID];
@@ -0,0 +1,39 @@
+import { Memory } from '../types';
+
+const MAX_TAG_LENGTH = 20;
+
+/**
+ * Trims a tag, strips a leading '#', collapses whitespace and caps its length.
+ * Returns an empty string for tags that are blank after cleaning.
+ */
+export const normalizeTag = (tag: string) => {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+};
+
+/**
+ * Normalizes a tag list, dropping blanks and case-insensitive duplicates (first spelling wins).
+ */
+export const normalizeTags = (tags: string[], limit = Infinity) => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = normalizeTag(raw);
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    result.push(tag);
+    if (result.length >= limit) break;
+  }
+  return result;
+};
+
+/**
+ * Every tag used in the given memories with its number of memories, most used first.
+ */
+export const collectTags = (memories: Memory[]) => {
+  const counts = new Map<string, number>();
+  memories.forEach(m => m.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
@@ -0,0 +1,79 @@
+import { Memory } from '../types';
+import { TimelineZoom } from '../stores/timelineStore';
+
+export interface TimelineBucket {
+  start: number;
+  end: number; // exclusive
+  memories: Memory[];
+  // A long stretch of empty periods drawn as one column
+  isGap?: boolean;
+}
+
+// Runs of empty periods up to this long are drawn period by period; longer ones collapse into a gap
+const MAX_EMPTY_RUN = 6;
+
+export const startOfPeriod = (time: number, zoom: TimelineZoom) => {
+  const d = new Date(time);
+  switch (zoom) {
+    case 'year':
+      return new Date(d.getFullYear(), 0, 1).getTime();
+    case 'month':
+      return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+    case 'day':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  }
+};
+
+// Calendar arithmetic via Date so months of different lengths and DST shifts stay aligned
+export const nextPeriod = (start: number, zoom: TimelineZoom) => {
+  const d = new Date(start);
+  switch (zoom) {
+    case 'year':
+      return new Date(d.getFullYear() + 1, 0, 1).getTime();
+    case 'month':
+      return new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime();
+    case 'day':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+  }
+};
+
+/**
+ * Groups memories into consecutive calendar periods from the earliest to the latest memory.
+ * Periods without memories are kept as empty buckets so gaps in time stay visible; a longer run of them
+ * (e.g. between a scan dated 1970 and today's photos) becomes a single gap bucket, keeping the axis short.
+ */
+export const buildTimelineBuckets = (memories: Memory[], zoom: TimelineZoom): TimelineBucket[] => {
+  if (memories.length === 0) return [];
+
+  const sorted = [...memories].sort((a, b) => a.timestamp - b.timestamp);
+  const buckets: TimelineBucket[] = [];
+
+  let cursor = 0;
+  let start = startOfPeriod(sorted[0].timestamp, zoom);
+  while (cursor < sorted.length) {
+    const nextOccupied = startOfPeriod(sorted[cursor].timestamp, zoom);
+
+    // Empty periods before the next memory: one by one when few, otherwise one gap
+    let emptyEnd = start;
+    for (let run = 0; emptyEnd < nextOccupied && run < MAX_EMPTY_RUN; run++) emptyEnd = nextPeriod(emptyEnd, zoom);
+    if (emptyEnd < nextOccupied) {
+      buckets.push({ start, end: nextOccupied, memories: [], isGap: true });
+    } else {
+      for (; start < nextOccupied; start = nextPeriod(start, zoom)) {
+        buckets.push({ start, end: nextPeriod(start, zoom), memories: [] });
+      }
+    }
+
+    start = nextOccupied;
+    const end = nextPeriod(start, zoom);
+    const bucket: TimelineBucket = { start, end, memories: [] };
+    while (cursor < sorted.length && sorted[cursor].timestamp < end) {
+      bucket.memories.push(sorted[cursor]);
+      cursor++;
+    }
+    buckets.push(bucket);
+    start = end;
+  }
+
+  return buckets;
+};
@@ -0,0 +1,67 @@
+import { ViewMode } from '../stores/viewStore';
+
+const VIEW_MODES: ViewMode[] = ['orb', 'gallery', 'world', 'timeline'];
+
+/**
+ * What the address bar says about the space: the view, the memory open in the modal, and where that
+ * view is looking - the card index for gallery and world, the sphere's rotation for the orb.
+ */
+export interface AppRoute {
+  viewMode: ViewMode;
+  memoryId: string | null;
+  // 0-based; only for the gallery and world views
+  activeIndex: number | null;
+  // Degrees; only for the orb view
+  cameraRotation: { x: number; y: number } | null;
+}
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Reads a hash such as `#/world/3?memory=abc` (card indices are 1-based, as shown on screen) or
+ * `#/orb?rx=12&ry=-40`. Returns null for an empty or unrecognised hash, so the app keeps its defaults.
+ */
+export const parseRoute = (hash: string): AppRoute | null => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const [view, index] = path.split('/');
+  const viewMode = VIEW_MODES.find(mode => mode === view);
+  if (!viewMode) return null;
+
+  const params = new URLSearchParams(query);
+  const position = viewMode === 'gallery' || viewMode === 'world' ? parseNumber(index ?? null) : null;
+  const rx = viewMode === 'orb' ? parseNumber(params.get('rx')) : null;
+  const ry = viewMode === 'orb' ? parseNumber(params.get('ry')) : null;
+
+  return {
+    viewMode,
+    memoryId: params.get('memory') || null,
+    activeIndex: position !== null && Number.isInteger(position) && position >= 1 ? position - 1 : null,
+    cameraRotation: rx !== null && ry !== null ? { x: rx, y: ry } : null,
+  };
+};
+
+const formatDegrees = (degrees: number) => String(Math.round(degrees * 10) / 10);
+
+/**
+ * The hash for a route; the inverse of parseRoute.
+ */
+export const buildRoute = (route: AppRoute) => {
+  let path = `#/${route.viewMode}`;
+  if ((route.viewMode === 'gallery' || route.viewMode === 'world') && route.activeIndex !== null) {
+    path += `/${route.activeIndex + 1}`;
+  }
+
+  const params = new URLSearchParams();
+  if (route.viewMode === 'orb' && route.cameraRotation) {
+    params.set('rx', formatDegrees(route.cameraRotation.x));
+    params.set('ry', formatDegrees(route.cameraRotation.y));
+  }
+  if (route.memoryId) params.set('memory', route.memoryId);
+
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
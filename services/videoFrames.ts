@@ -0,0 +1,86 @@
+import { KEYFRAME_COUNT, KEYFRAME_EDGE, renderScaled } from './imageDerivatives';
+
+/**
+ * Decodes frames of a video clip through a hidden <video> element.
+ * Main thread only: workers have no media elements.
+ */
+
+export interface VideoFrames {
+  // Full-size frame shown before playback; the image worker derives the thumbnail and preview from it
+  poster: Blob;
+  // Frames for the AI, in playback order
+  keyframes: Blob[];
+}
+
+// A clip the browser cannot decode must not hold up the ingest queue
+const EVENT_TIMEOUT_MS = 15000;
+
+// Far enough in to skip fade-ins and black leaders, early enough to stay representative
+const POSTER_TIME_S = 1;
+
+const waitForEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked') => {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'Video could not be decoded'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for video ${event}`));
+    }, EVENT_TIMEOUT_MS);
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+};
+
+const captureAt = async (video: HTMLVideoElement, time: number, maxEdge: number): Promise<Blob> => {
+  if (Math.abs(video.currentTime - time) > 0.01) {
+    const seeked = waitForEvent(video, 'seeked');
+    video.currentTime = time;
+    await seeked;
+  }
+  const bitmap = await createImageBitmap(video);
+  try {
+    return await renderScaled(bitmap, maxEdge);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const sampleVideoFrames = async (clip: Blob): Promise<VideoFrames> => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(clip);
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+
+    // Streams recorded in the browser can report an infinite duration; those get a single frame
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const poster = await captureAt(video, Math.min(POSTER_TIME_S, duration / 2), Infinity);
+
+    const count = duration > 0 ? KEYFRAME_COUNT : 1;
+    const keyframes: Blob[] = [];
+    for (let i = 0; i < count; i++) {
+      keyframes.push(await captureAt(video, duration * (i + 0.5) / count, KEYFRAME_EDGE));
+    }
+    return { poster, keyframes };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
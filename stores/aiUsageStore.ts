@@ -0,0 +1,13 @@
+import { create } from 'zustand';
+import { AIUsage } from '../services/ai/rateLimiter';
+
+interface AIUsageState {
+  // Mirrors the request limiter, for the usage notice
+  usage: AIUsage;
+  setUsage: (usage: AIUsage) => void;
+}
+
+export const useAIUsageStore = create<AIUsageState>((set) => ({
+  usage: { used: 0, budget: 0, waiting: 0, exhaustedUntil: null },
+  setUsage: (usage) => set({ usage }),
+}));
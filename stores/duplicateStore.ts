@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DuplicatePair, pairKey } from '../services/duplicateService';
+
+interface DuplicateState {
+  // Waiting for the user in the review dialog, oldest first
+  pairs: DuplicatePair[];
+  isScanning: boolean;
+  // pairKeys of look-alikes the user chose to keep both of; scans don't bring them up again
+  dismissedPairKeys: string[];
+
+  addPairs: (pairs: DuplicatePair[]) => void;
+  removePairs: (memoryIds: string[]) => void;
+  clearPairs: () => void;
+  setIsScanning: (isScanning: boolean) => void;
+  dismissPairs: (pairs: DuplicatePair[]) => void;
+}
+
+// Only the dismissals survive reloads; pairs are found again by the next scan
+export const useDuplicateStore = create<DuplicateState>()(persist(
+  (set) => ({
+    pairs: [],
+    isScanning: false,
+    dismissedPairKeys: [],
+
+    // A memory is reviewed against one look-alike at a time; later findings replace earlier ones
+    addPairs: (pairs) => set((state) => {
+      const incomingIds = new Set(pairs.map((p) => p.memoryId));
+      return { pairs: [...state.pairs.filter((p) => !incomingIds.has(p.memoryId)), ...pairs] };
+    }),
+    // Drops every pair that involves one of the given memories
+    removePairs: (memoryIds) => set((state) => ({
+      pairs: state.pairs.filter((p) => !memoryIds.includes(p.memoryId) && !memoryIds.includes(p.duplicateOfId)),
+    })),
+    clearPairs: () => set({ pairs: [] }),
+    setIsScanning: (isScanning) => set({ isScanning }),
+    dismissPairs: (pairs) => set((state) => {
+      const keys = new Set(state.dismissedPairKeys);
+      pairs.forEach((p) => keys.add(pairKey(p.memoryId, p.duplicateOfId)));
+      return { dismissedPairKeys: [...keys] };
+    }),
+  }),
+  {
+    name: 'memory-space-dismissed-duplicates',
+    partialize: (state) => ({ dismissedPairKeys: state.dismissedPairKeys }),
+    merge: (persisted, current) => {
+      const keys = (persisted as Partial<DuplicateState> | undefined)?.dismissedPairKeys;
+      return Array.isArray(keys) ? { ...current, dismissedPairKeys: keys.filter((k): k is string => typeof k === 'string') } : current;
+    },
+  },
+));
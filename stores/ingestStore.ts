@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+
+export type IngestStatus = 'queued' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+// One analysis job, keyed by the memory it belongs to
+export interface IngestJob {
+  memoryId: string;
+  label: string; // File name, shown in the progress tray
+  status: IngestStatus;
+  attempts: number;
+}
+
+interface IngestState {
+  jobs: IngestJob[];
+  upsertJob: (job: IngestJob) => void;
+  updateJob: (memoryId: string, updates: Partial<IngestJob>) => void;
+  removeJobs: (memoryIds: string[]) => void;
+}
+
+export const useIngestStore = create<IngestState>((set) => ({
+  jobs: [],
+  upsertJob: (job) => set((state) => ({
+    jobs: state.jobs.some((j) => j.memoryId === job.memoryId)
+      ? state.jobs.map((j) => (j.memoryId === job.memoryId ? job : j))
+      : [...state.jobs, job],
+  })),
+  updateJob: (memoryId, updates) => set((state) => ({
+    jobs: state.jobs.map((j) => (j.memoryId === memoryId ? { ...j, ...updates } : j)),
+  })),
+  removeJobs: (memoryIds) => set((state) => ({
+    jobs: state.jobs.filter((j) => !memoryIds.includes(j.memoryId)),
+  })),
+}));
+
+export const isJobActive = (job: IngestJob) => job.status === 'queued' || job.status === 'analyzing';
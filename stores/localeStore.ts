@@ -0,0 +1,29 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Locale, MessageKey, MessageParams, detectLocale, isLocale, translate } from '../services/i18n';
+
+interface LocaleState {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+// The chosen locale survives reloads in localStorage; until one is chosen the browser language decides
+export const useLocaleStore = create<LocaleState>()(persist(
+  (set) => ({
+    locale: detectLocale(),
+    setLocale: (locale) => set({ locale }),
+  }),
+  {
+    name: 'memory-space-locale',
+    partialize: (state) => ({ locale: state.locale }),
+    merge: (persisted, current) => {
+      const locale = (persisted as Partial<LocaleState> | undefined)?.locale;
+      return isLocale(locale) ? { ...current, locale } : current;
+    },
+  },
+));
+
+/**
+ * Translates in the current locale, for code outside React (managers); components use `useTranslation`.
+ */
+export const t = (key: MessageKey, params?: MessageParams) => translate(useLocaleStore.getState().locale, key, params);
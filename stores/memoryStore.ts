@@ -1,21 +1,44 @@
 import { create } from 'zustand';
-import { Memory } from '../types';
+import { Memory, ReplyDraft } from '../types';
 
 interface MemoryState {
   memories: Memory[];
   selectedMemoryId: string | null;
   isProcessing: boolean;
+  // The conversation reply being streamed, or a stopped one awaiting keep/discard
+  replyDraft: ReplyDraft | null;
+  // Multi-selection for bulk actions (independent of the memory open in the modal)
+  selectedIds: string[];
+  isSelecting: boolean;
+  showArchived: boolean;
+  // Only memories carrying every one of these tags are shown
+  tagFilter: string[];
+  // Memories removed from the space that can still be restored from the undo toast
+  pendingDeletion: Memory[] | null;
   setMemories: (memories: Memory[]) => void;
   updateMemory: (id: string, updates: Partial<Memory>) => void;
   addMemories: (memories: Memory[]) => void;
+  removeMemories: (ids: string[]) => void;
   setSelectedMemoryId: (id: string | null) => void;
   setIsProcessing: (isProcessing: boolean) => void;
+  setReplyDraft: (replyDraft: ReplyDraft | null) => void;
+  setSelectedIds: (ids: string[]) => void;
+  setIsSelecting: (isSelecting: boolean) => void;
+  setShowArchived: (showArchived: boolean) => void;
+  setTagFilter: (tags: string[]) => void;
+  setPendingDeletion: (memories: Memory[] | null) => void;
 }
 
 export const useMemoryStore = create<MemoryState>((set) => ({
   memories: [],
   selectedMemoryId: null,
   isProcessing: false,
+  replyDraft: null,
+  selectedIds: [],
+  isSelecting: false,
+  showArchived: false,
+  tagFilter: [],
+  pendingDeletion: null,
   setMemories: (memories) => set({ memories }),
   updateMemory: (id, updates) => set((state) => ({
     memories: state.memories.map((m) => (m.id === id ? { ...m, ...updates } : m)),
@@ -23,6 +46,33 @@ export const useMemoryStore = create<MemoryState>((set) => ({
   addMemories: (newMemories) => set((state) => ({
     memories: [...state.memories, ...newMemories]
   })),
+  removeMemories: (ids) => set((state) => ({
+    memories: state.memories.filter((m) => !ids.includes(m.id)),
+    selectedIds: state.selectedIds.filter((id) => !ids.includes(id)),
+    selectedMemoryId: state.selectedMemoryId && ids.includes(state.selectedMemoryId) ? null : state.selectedMemoryId,
+  })),
   setSelectedMemoryId: (selectedMemoryId) => set({ selectedMemoryId }),
   setIsProcessing: (isProcessing) => set({ isProcessing }),
-}));
\ No newline at end of file
+  setReplyDraft: (replyDraft) => set({ replyDraft }),
+  setSelectedIds: (selectedIds) => set({ selectedIds }),
+  setIsSelecting: (isSelecting) => set({ isSelecting }),
+  setShowArchived: (showArchived) => set({ showArchived }),
+  setTagFilter: (tagFilter) => set({ tagFilter }),
+  setPendingDeletion: (pendingDeletion) => set({ pendingDeletion }),
+}));
+
+// Queued or running: the memory's description is about to change
+export const isAnalysisActive = (memory: Memory) => memory.analysisStatus === 'pending' || memory.analysisStatus === 'running';
+
+/**
+ * The memories the views should show: archived ones are hidden unless explicitly requested,
+ * and an active tag filter keeps only memories that have all of its tags.
+ */
+export const getVisibleMemories = (state: Pick<MemoryState, 'memories' | 'showArchived' | 'tagFilter'>) => {
+  const { memories, showArchived, tagFilter } = state;
+  if (showArchived && tagFilter.length === 0) return memories;
+  return memories.filter((m) => {
+    if (!showArchived && m.isArchived) return false;
+    return tagFilter.every((tag) => m.tags?.includes(tag));
+  });
+};
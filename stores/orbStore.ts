@@ -1,19 +1,33 @@
 import { create } from 'zustand';
+import { OrbLayoutMode, OrbPlacement } from '../types';
 
 interface OrbState {
   isGravityMode: boolean;
+  layoutMode: OrbLayoutMode;
+  // Placements computed by the active layout; null keeps every orb at its own theta/phi
+  placements: Map<string, OrbPlacement> | null;
+  isLayoutPending: boolean;
   sphereRadius: number;
   cameraRotation: { x: number; y: number };
   setIsGravityMode: (isGravityMode: boolean) => void;
+  setLayoutMode: (layoutMode: OrbLayoutMode) => void;
+  setPlacements: (placements: Map<string, OrbPlacement> | null) => void;
+  setIsLayoutPending: (isLayoutPending: boolean) => void;
   setSphereRadius: (sphereRadius: number) => void;
   setCameraRotation: (rotation: { x: number; y: number }) => void;
 }
 
 export const useOrbStore = create<OrbState>((set) => ({
   isGravityMode: false,
+  layoutMode: 'manual',
+  placements: null,
+  isLayoutPending: false,
   sphereRadius: 350,
   cameraRotation: { x: 0, y: 0 },
   setIsGravityMode: (isGravityMode) => set({ isGravityMode }),
+  setLayoutMode: (layoutMode) => set({ layoutMode }),
+  setPlacements: (placements) => set({ placements }),
+  setIsLayoutPending: (isLayoutPending) => set({ isLayoutPending }),
   setSphereRadius: (sphereRadius) => set({ sphereRadius }),
   setCameraRotation: (cameraRotation) => set({ cameraRotation }),
 }));
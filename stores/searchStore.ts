@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+import { Memory } from '../types';
+
+interface SearchState {
+  query: string;
+  // null while no search is active, otherwise the matching memory IDs (keyword matches first)
+  matchedIds: string[] | null;
+  // Keyword results are shown right away; semantic ones follow once embeddings are ready
+  isSemanticPending: boolean;
+  setQuery: (query: string) => void;
+  setMatchedIds: (ids: string[] | null) => void;
+  setIsSemanticPending: (isPending: boolean) => void;
+}
+
+export const useSearchStore = create<SearchState>((set) => ({
+  query: '',
+  matchedIds: null,
+  isSemanticPending: false,
+  setQuery: (query) => set({ query }),
+  setMatchedIds: (matchedIds) => set({ matchedIds }),
+  setIsSemanticPending: (isSemanticPending) => set({ isSemanticPending }),
+}));
+
+/**
+ * Narrows a list to the search results (keeping the list's own order); without an active search the list is returned as is.
+ */
+export const narrowToMatches = (memories: Memory[], matchedIds: string[] | null) => {
+  if (!matchedIds) return memories;
+  const matched = new Set(matchedIds);
+  return memories.filter(m => matched.has(m.id));
+};
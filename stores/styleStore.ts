@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { StylePresetId } from '../types';
+import { DEFAULT_STYLE_PRESET_ID, isStylePresetId } from '../services/stylePresets';
+
+interface StyleState {
+  // Style for memories without their own override
+  defaultPresetId: StylePresetId;
+  setDefaultPresetId: (id: StylePresetId) => void;
+}
+
+export const useStyleStore = create<StyleState>()(persist(
+  (set) => ({
+    defaultPresetId: DEFAULT_STYLE_PRESET_ID,
+    setDefaultPresetId: (defaultPresetId) => set({ defaultPresetId }),
+  }),
+  {
+    name: 'memory-space-style',
+    partialize: (state) => ({ defaultPresetId: state.defaultPresetId }),
+    merge: (persisted, current) => {
+      const id = (persisted as Partial<StyleState> | undefined)?.defaultPresetId;
+      return isStylePresetId(id) ? { ...current, defaultPresetId: id } : current;
+    },
+  },
+));
@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+
+export type TimelineZoom = 'year' | 'month' | 'day';
+
+interface TimelineState {
+  zoom: TimelineZoom;
+  // Time at the center of the axis; null means "most recent"
+  focusTime: number | null;
+  setZoom: (zoom: TimelineZoom) => void;
+  setFocusTime: (focusTime: number | null) => void;
+}
+
+export const useTimelineStore = create<TimelineState>((set) => ({
+  zoom: 'month',
+  focusTime: null,
+  setZoom: (zoom) => set({ zoom }),
+  setFocusTime: (focusTime) => set({ focusTime }),
+}));
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 
-export type ViewMode = 'orb' | 'gallery' | 'world';
+export type ViewMode = 'orb' | 'gallery' | 'world' | 'timeline';
 
 interface ViewState {
   viewMode: ViewMode;
@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { MessageKey } from '../services/i18n';
+
+interface VoiceNoteState {
+  // The memory a recording is in progress for, if any
+  recordingMemoryId: string | null;
+  recordingStartedAt: number | null;
+  // Why the microphone couldn't be used, shown next to the record button; a message key, translated when shown
+  recordingError: MessageKey | null;
+
+  setRecording: (memoryId: string | null) => void;
+  setRecordingError: (error: MessageKey | null) => void;
+}
+
+export const useVoiceNoteStore = create<VoiceNoteState>((set) => ({
+  recordingMemoryId: null,
+  recordingStartedAt: null,
+  recordingError: null,
+
+  setRecording: (memoryId) => set({
+    recordingMemoryId: memoryId,
+    recordingStartedAt: memoryId ? Date.now() : null,
+  }),
+  setRecordingError: (recordingError) => set({ recordingError }),
+}));
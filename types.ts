@@ -1,6 +1,15 @@
 export interface Memory {
   id: string;
-  url: string;
+  url: string; // The original image or clip, kept for export
+  mediaKind: MediaKind;
+  // Downscaled renditions made on ingest (object URLs, never persisted); views fall back to `url`
+  thumbnailUrl?: string;
+  previewUrl?: string;
+  // Difference hash of the image (16 hex digits), used to spot re-uploads of the same photo
+  perceptualHash?: string;
+  // What was written for a 'journal' memory; its image is generated from this text
+  journalText?: string;
+  // The AI's (or the user's) words for the memory; empty until a first analysis succeeds
   description: string;
   timestamp: number;
   // Spherical coordinates (radians)
@@ -11,7 +20,130 @@ export interface Memory {
   scale: number;
   rotation: number; // Local rotation of the image frame
   driftSpeed: number; // Speed of the subtle floating animation
-  isAnalyzing: boolean;
+  // Where the AI analysis stands. Failures are recorded here, never written into the description
+  analysisStatus: AnalysisStatus;
+  analysisError?: AnalysisErrorReason;
+  isArchived?: boolean; // Hidden from the views but kept in the space
+
+  // Capture metadata read from EXIF/XMP on upload (absent for the demo seed)
+  metadata?: MemoryMetadata;
+
+  // Ordered dialogue with the memory ("与这段记忆对话")
+  conversation?: ConversationTurn[];
+
+  // Every description this memory has had, oldest first. The last entry matches `description`.
+  descriptionHistory?: DescriptionVersion[];
+
+  // Structured result of the latest AI analysis; its poem is also recorded as the description
+  analysis?: MemoryAnalysis;
+
+  // Topic tags, seeded from the analysis and editable by the user
+  tags?: string[];
+
+  // Interpretation style chosen for this memory; absent means it follows the space's default
+  stylePresetId?: StylePresetId;
+
+  // Spoken stories recorded in the memory modal, oldest first
+  voiceNotes?: VoiceNote[];
+}
+
+export interface VoiceNote {
+  id: string;
+  mimeType: string;
+  duration: number; // Seconds
+  // Peak level per bar (0..1), drawn as the waveform preview
+  waveform: number[];
+  createdAt: number;
+  transcript?: string;
+  isTranscribing?: boolean;
+  // Object URL of the recording (never persisted; the audio store holds the bytes)
+  url?: string;
+}
+
+// 'animated' images (GIF, animated WebP/PNG) play in an <img>; 'video' clips need a <video> element.
+// 'journal' memories were written rather than captured; their image is abstract generated art.
+export type MediaKind = 'image' | 'animated' | 'video' | 'journal';
+
+export interface MemoryAnalysis {
+  poem: string;
+  tags: string[];
+  mood: { label: string; intensity: number }; // intensity in [0, 1]
+  colors: string[]; // Dominant colors as lowercase #rrggbb
+  scene: string;
+  objects: string[];
+}
+
+export type StylePresetId = 'poetic' | 'haiku' | 'diary' | 'poetic-en' | 'haiku-en';
+
+// Language the AI writes its interpretation in
+export type OutputLanguage = 'zh-CN' | 'en';
+
+/**
+ * How the AI words a memory's description. `template` is the instruction for the description itself,
+ * with `{language}` and `{maxWords}` filled in from the preset.
+ */
+export interface StylePreset {
+  id: StylePresetId;
+  template: string;
+  language: OutputLanguage;
+  maxWords: number;
+}
+
+// 'initial' marks a description that existed before history was recorded (e.g. the demo seed)
+export type DescriptionSource = 'initial' | 'interpret' | 'expand' | 'manual' | 'revert' | 'merge';
+
+export interface DescriptionVersion {
+  id: string;
+  text: string;
+  source: DescriptionSource;
+  timestamp: number;
+  // Style the AI wrote this version in (interpretations only)
+  stylePresetId?: StylePresetId;
+}
+
+export type AnalysisStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Why the last analysis failed: the AI quota ran out, the media couldn't be decoded,
+// the provider gave no valid answer, or the page was closed before it finished
+export type AnalysisErrorReason = 'quota' | 'media' | 'provider' | 'interrupted';
+
+export interface ConversationTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * An AI reply while it streams in. A reply the user stopped (or that broke off) stays here as
+ * 'stopped' until they keep it as a conversation turn or discard it.
+ */
+export interface ReplyDraft {
+  memoryId: string;
+  text: string;
+  status: 'streaming' | 'stopped';
+}
+
+export interface MemoryMetadata {
+  capturedAt: number;
+  // True when the file carried no capture date and lastModified was used instead
+  isDateEstimated: boolean;
+  camera?: { make?: string; model?: string };
+  orientation?: number; // EXIF orientation (1-8)
+  width?: number;
+  height?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+// 'manual' keeps each memory's own theta/phi (the user's arrangement); the others compute placements
+export type OrbLayoutMode = 'manual' | 'geo' | 'chronological' | 'color' | 'semantic';
+
+// Where an orb is drawn on the sphere when a layout overrides the memory's own theta/phi
+export interface OrbPlacement {
+  theta: number;
+  phi: number;
+  // Multiplier on the sphere radius, for orbs drawn off the surface (e.g. the unplaced ring)
+  radiusScale?: number;
 }
 
 export interface Coordinates {
@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_EMBEDDING_MODEL': JSON.stringify(env.AI_EMBEDDING_MODEL),
+        'process.env.AI_TRANSCRIPTION_MODEL': JSON.stringify(env.AI_TRANSCRIPTION_MODEL),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY),
+        'process.env.AI_REQUESTS_PER_MINUTE': JSON.stringify(env.AI_REQUESTS_PER_MINUTE),
+        'process.env.AI_DAILY_REQUEST_BUDGET': JSON.stringify(env.AI_DAILY_REQUEST_BUDGET)
       },
       resolve: {
         alias: {